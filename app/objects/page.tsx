@@ -1,60 +1,141 @@
 "use client";
 
-import { z } from "zod";
 import Link from "next/link";
-import { useSyncStateStream, useTrpc } from "@/lib/client/trpc";
-import { SyncState } from "@/lib/sync-state";
-import { Operation } from "fast-json-patch";
-import { useCallback, useRef } from "react";
+import { StreamTransport, useTrpc } from "@/lib/client/trpc";
+import { useSyncProcedure } from "@/lib/client/use-sync-procedure";
+import { useSyncStateSelector } from "@/lib/client/use-sync-state-selector";
+import { SessionRecorder, SyncState } from "@/lib/sync-state";
+import { objectsSchemas, ObjectsState } from "@/lib/schemas/objects";
+import { memo, useCallback, useState } from "react";
 
-const objectSchema = z.object({
-  count: z.number(),
-});
-
-const stateSchema = z.array(objectSchema);
+type StreamedObject = ObjectsState[number];
 
-type ObjectState = z.infer<typeof stateSchema>;
+/**
+ * Selects the streaming objects procedures on the tRPC client
+ */
+const objectsProcedure = (client: ReturnType<typeof useTrpc>) => client.objects;
 
 /**
  * Hook that manages streaming objects with SyncState
- * Connects to the tRPC streamingObjects endpoint and applies JSON Patch operations
+ * Connects to the tRPC objects procedures, starts from the server's snapshot
+ * and applies versioned JSON Patch envelopes, resuming from the last applied
+ * version after a dropped connection or a change of transport
  */
-function useStreamingObjects() {
-  const syncStateRef = useRef<SyncState<ObjectState>>(
-    new SyncState({
-      schema: stateSchema,
-      initialState: [],
-    })
-  );
-
-  const queryFn = useCallback(async (client: ReturnType<typeof useTrpc>) => {
-    // Create an async generator that applies operations and yields states
-    async function* stateGenerator() {
-      const operationsIterable = await client.streamingObjects.query();
-      yield syncStateRef.current.state;
-      for await (const operations of operationsIterable) {
-        // Type assertion needed: tRPC's serialization creates a type signature
-        // that differs slightly from fast-json-patch's Operation type (e.g., value?: any
-        // vs required value). The runtime data is correct, just the types don't align perfectly.
-        syncStateRef.current.apply(operations as Operation[]);
-        yield syncStateRef.current.state;
-      }
-    }
-
-    return stateGenerator();
-  }, []);
-
-  return useSyncStateStream<ObjectState>({
-    queryFn,
+function useStreamingObjects(transport: StreamTransport) {
+  // Records the session so it can be exported and replayed with SessionReplay
+  const [recorder] = useState(() => new SessionRecorder<ObjectsState>());
+  return useSyncProcedure({
+    procedure: objectsProcedure,
+    schema: objectsSchemas,
+    initialState: [],
+    transport,
+    recorder,
+    onRollback: (mutation, reason) =>
+      console.warn("Rolled back mutation", mutation.id, reason),
   });
 }
 
+type ObjectCardProps = {
+  syncState: SyncState<ObjectsState>;
+  index: number;
+  onMutate: (mutator: (state: ObjectsState) => ObjectsState) => void;
+};
+
+/**
+ * Card showing a single object, subscribed to its own path so it only
+ * re-renders when a patch touches that object
+ */
+const ObjectCard = memo(function ObjectCard({
+  syncState,
+  index,
+  onMutate,
+}: ObjectCardProps) {
+  const obj = useSyncStateSelector<StreamedObject>(syncState, `/${index}`);
+  if (!obj) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center p-3 border border-gray-700 rounded-lg bg-gray-800 hover:bg-gray-700 transition-colors">
+      <span className="text-xs text-gray-400 mb-1">#{index}</span>
+      <span className="text-2xl font-bold text-blue-400">{obj.count}</span>
+      <div className="flex gap-2 mt-2 text-sm">
+        <button
+          aria-label={obj.starred ? "Unstar" : "Star"}
+          className={obj.starred ? "text-yellow-400" : "text-gray-500"}
+          onClick={() =>
+            onMutate((current) =>
+              current.map((item, i) =>
+                i === index ? { ...item, starred: !item.starred } : item
+              )
+            )
+          }
+        >
+          ★
+        </button>
+        <button
+          aria-label="Increment"
+          className="text-gray-400 hover:text-white"
+          onClick={() =>
+            onMutate((current) =>
+              current.map((item, i) =>
+                i === index ? { ...item, count: item.count + 1 } : item
+              )
+            )
+          }
+        >
+          +1
+        </button>
+        <button
+          aria-label="Delete"
+          className="text-gray-400 hover:text-red-400"
+          onClick={() =>
+            onMutate((current) => current.filter((_, i) => i !== index))
+          }
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+});
+
 /**
  * Objects page that demonstrates streaming SyncState with tRPC
  * Displays an array of objects with counts that update in real-time
  */
 export default function Objects() {
-  const { state, isStreaming, error } = useStreamingObjects();
+  const [transport, setTransport] = useState<StreamTransport>("batch-stream");
+  const {
+    state,
+    isStreaming,
+    isReconnecting,
+    error,
+    mutate,
+    exportSession,
+    syncState,
+  } = useStreamingObjects(transport);
+
+  // Stable so memoized cards are not re-rendered by every patch
+  const onMutate = useCallback(
+    (mutator: (state: ObjectsState) => ObjectsState) => {
+      mutate(mutator).catch((err) => console.error("Update failed:", err));
+    },
+    [mutate]
+  );
+
+  // Downloads the recorded session as JSON for replaying locally
+  const onExportSession = () => {
+    const blob = new Blob([JSON.stringify(exportSession())], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `objects-session-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
   return (
     <div className="grid grid-rows-[20px_1fr_20px] items-center justify-items-center min-h-screen p-8 pb-20 gap-16 sm:p-20 font-[family-name:var(--font-geist-sans)]">
@@ -78,15 +159,35 @@ export default function Objects() {
             <p className="text-sm text-gray-600 mb-4">
               Each second, either a random object&apos;s count increments or a
               new object is added. The server sends JSON Patch operations that
-              are applied to the client&apos;s SyncState.
+              are applied to the client&apos;s SyncState. Star, increment or
+              delete objects to send your own operations to the server.
             </p>
 
+            <label className="flex items-center gap-2 text-sm text-gray-700 mb-4">
+              Transport
+              <select
+                className="border rounded px-2 py-1"
+                value={transport}
+                onChange={(event) =>
+                  setTransport(event.target.value as StreamTransport)
+                }
+              >
+                <option value="batch-stream">Chunked HTTP</option>
+                <option value="sse">Server-Sent Events</option>
+                <option value="websocket">WebSocket (bun run ws)</option>
+              </select>
+            </label>
+
             {isStreaming && !state && (
               <p className="text-gray-500">Initializing stream...</p>
             )}
 
             {error && <p className="text-red-600">Error: {error}</p>}
 
+            {isReconnecting && (
+              <p className="text-yellow-600">Reconnecting...</p>
+            )}
+
             {state && state.length > 0 && (
               <div className="flex flex-col gap-2">
                 <div className="flex items-center gap-4 mb-2">
@@ -96,21 +197,22 @@ export default function Objects() {
                   {isStreaming && (
                     <span className="text-sm text-green-600">● Streaming</span>
                   )}
+                  <button
+                    className="text-sm text-blue-600 hover:text-blue-800 underline"
+                    onClick={onExportSession}
+                  >
+                    Export session
+                  </button>
                 </div>
 
                 <div className="grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 gap-3">
-                  {state.map((obj, index) => (
-                    <div
+                  {state.map((_, index) => (
+                    <ObjectCard
                       key={index}
-                      className="flex flex-col items-center justify-center p-3 border border-gray-700 rounded-lg bg-gray-800 hover:bg-gray-700 transition-colors"
-                    >
-                      <span className="text-xs text-gray-400 mb-1">
-                        #{index}
-                      </span>
-                      <span className="text-2xl font-bold text-blue-400">
-                        {obj.count}
-                      </span>
-                    </div>
+                      syncState={syncState}
+                      index={index}
+                      onMutate={onMutate}
+                    />
                   ))}
                 </div>
               </div>
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import { SubscriptionHandlers, subscriptionIterable } from "./subscription";
+
+/**
+ * Helper function to create a fake subscription whose handlers can be driven
+ * from the test.
+ */
+function createSubscription<T>() {
+  const subscription = {
+    handlers: null as SubscriptionHandlers<T> | null,
+    unsubscribed: false,
+  };
+  const iterable = subscriptionIterable<T>((handlers) => {
+    subscription.handlers = handlers;
+    return {
+      unsubscribe: () => {
+        subscription.unsubscribed = true;
+      },
+    };
+  });
+  return { subscription, iterable };
+}
+
+describe("subscriptionIterable", () => {
+  test("should yield buffered and later values until completion", async () => {
+    const { subscription, iterable } = createSubscription<number>();
+    const iterator = iterable[Symbol.asyncIterator]();
+
+    const first = iterator.next();
+    subscription.handlers?.onData(1);
+    subscription.handlers?.onData(2);
+    expect(await first).toEqual({ value: 1, done: false });
+    expect(await iterator.next()).toEqual({ value: 2, done: false });
+
+    const last = iterator.next();
+    subscription.handlers?.onComplete();
+    expect(await last).toEqual({ value: undefined, done: true });
+    expect(subscription.unsubscribed).toBe(true);
+  });
+
+  test("should throw errors after the buffered values", async () => {
+    const { subscription, iterable } = createSubscription<number>();
+    const iterator = iterable[Symbol.asyncIterator]();
+
+    const first = iterator.next();
+    subscription.handlers?.onData(1);
+    subscription.handlers?.onError(new Error("Connection lost"));
+
+    expect(await first).toEqual({ value: 1, done: false });
+    await expect(iterator.next()).rejects.toThrow("Connection lost");
+    expect(subscription.unsubscribed).toBe(true);
+  });
+
+  test("should unsubscribe when the consumer stops iterating", async () => {
+    const { subscription, iterable } = createSubscription<number>();
+
+    const pending = (async () => {
+      for await (const value of iterable) {
+        if (value === 2) {
+          break;
+        }
+      }
+    })();
+    // Let the iteration start and subscribe
+    await Promise.resolve();
+    subscription.handlers?.onData(1);
+    subscription.handlers?.onData(2);
+    await pending;
+
+    expect(subscription.unsubscribed).toBe(true);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Callbacks a tRPC subscription reports its values, errors and completion to
+ */
+export interface SubscriptionHandlers<T> {
+  onData: (value: T) => void;
+  onError: (err: unknown) => void;
+  onComplete: () => void;
+}
+
+/**
+ * Turns a tRPC subscription into an async iterable, so that subscriptions can
+ * be consumed like streamed queries
+ * The subscription starts when iteration starts and is unsubscribed when the
+ * consumer stops iterating. Values received before the consumer asks for them
+ * are buffered. An error is thrown from the iteration after the buffered values
+ *
+ * ```typescript
+ * const messages = subscriptionIterable((handlers) =>
+ *   client.objects.subscribe.subscribe(input, handlers)
+ * );
+ * ```
+ */
+export function subscriptionIterable<T>(
+  subscribe: (handlers: SubscriptionHandlers<T>) => { unsubscribe(): void }
+): AsyncIterable<T> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      const buffer: T[] = [];
+      let done = false;
+      let failure = null as { error: unknown } | null;
+      // Wakes the iteration when a value, an error or completion arrives
+      let notify: (() => void) | null = null;
+      const wake = () => {
+        notify?.();
+        notify = null;
+      };
+
+      const subscription = subscribe({
+        onData: (value) => {
+          buffer.push(value);
+          wake();
+        },
+        onError: (err) => {
+          failure = { error: err };
+          wake();
+        },
+        onComplete: () => {
+          done = true;
+          wake();
+        },
+      });
+
+      try {
+        while (true) {
+          if (buffer.length > 0) {
+            yield buffer.shift() as T;
+          } else if (failure) {
+            throw failure.error;
+          } else if (done) {
+            return;
+          } else {
+            await new Promise<void>((resolve) => (notify = resolve));
+          }
+        }
+      } finally {
+        subscription.unsubscribe();
+      }
+    },
+  };
+}
@@ -1,6 +1,15 @@
-import { useMemo, useState, useEffect } from "react";
-import { createTRPCClient, httpBatchStreamLink } from "@trpc/client";
+import { useMemo, useState, useEffect, useCallback } from "react";
+import {
+  createTRPCClient,
+  createWSClient,
+  httpBatchLink,
+  httpBatchStreamLink,
+  httpSubscriptionLink,
+  splitLink,
+  wsLink,
+} from "@trpc/client";
 import type { AppRouter } from "@/server/routers/_app";
+import type { SessionLog, SessionRecorder } from "@/lib/sync-state";
 
 /**
  * Gets the base URL for tRPC requests
@@ -16,29 +25,111 @@ function getBaseUrl() {
 }
 
 /**
- * Hook that creates and returns a vanilla tRPC client for streaming
+ * Gets the URL of the tRPC WebSocket server started by `bun run ws`
+ */
+function getWsUrl() {
+  if (process.env.NEXT_PUBLIC_TRPC_WS_URL) {
+    return process.env.NEXT_PUBLIC_TRPC_WS_URL;
+  }
+  const host =
+    typeof window !== "undefined" ? window.location.hostname : "localhost";
+  return `ws://${host}:${process.env.NEXT_PUBLIC_TRPC_WS_PORT ?? 3001}`;
+}
+
+/**
+ * How streams reach the server:
+ * - "batch-stream" streams query results in chunked HTTP responses
+ * - "sse" runs subscriptions over Server-Sent Events, for proxies that buffer
+ *   chunked responses but pass SSE
+ * - "websocket" runs every call over one WebSocket connection
  */
-export function useTrpc() {
-  const client = useMemo(
-    () =>
-      createTRPCClient<AppRouter>({
+export type StreamTransport = "batch-stream" | "sse" | "websocket";
+
+/**
+ * Creates a vanilla tRPC client that uses the given transport
+ */
+function createClient(transport: StreamTransport) {
+  const url = `${getBaseUrl()}/api/trpc`;
+  switch (transport) {
+    case "batch-stream":
+      return createTRPCClient<AppRouter>({
+        links: [httpBatchStreamLink({ url })],
+      });
+    case "sse":
+      return createTRPCClient<AppRouter>({
         links: [
-          httpBatchStreamLink({
-            url: `${getBaseUrl()}/api/trpc`,
+          splitLink({
+            condition: (op) => op.type === "subscription",
+            true: httpSubscriptionLink({ url }),
+            false: httpBatchLink({ url }),
           }),
         ],
-      }),
-    []
-  );
+      });
+    case "websocket":
+      return createTRPCClient<AppRouter>({
+        links: [
+          wsLink({
+            // Connects on the first call and closes once no call is running
+            client: createWSClient({
+              url: getWsUrl(),
+              lazy: { enabled: true, closeMs: 0 },
+            }),
+          }),
+        ],
+      });
+  }
+}
+
+/**
+ * Hook that creates and returns a vanilla tRPC client for streaming
+ * Uses chunked HTTP responses unless another transport is given
+ */
+export function useTrpc(transport: StreamTransport = "batch-stream") {
+  const client = useMemo(() => createClient(transport), [transport]);
 
   return client;
 }
 
+/**
+ * Reconnection settings for the useSyncStateStream hook
+ */
+interface ReconnectOptions {
+  /** Delay before the first reconnection attempt. Defaults to 1000ms. */
+  initialDelayMs?: number;
+  /** Upper bound for the exponential backoff delay. Defaults to 30000ms. */
+  maxDelayMs?: number;
+}
+
 /**
  * Parameters for the useSyncStateStream hook
  */
 interface UseSyncStateStreamParam<T> {
-  queryFn: (client: ReturnType<typeof useTrpc>) => Promise<AsyncIterable<T>>;
+  /**
+   * Starts the stream on the client. Streams over the "sse" and "websocket"
+   * transports must call a subscription procedure, e.g. with
+   * subscriptionIterable, rather than a query.
+   */
+  queryFn: (
+    client: ReturnType<typeof useTrpc>,
+    transport: StreamTransport
+  ) => Promise<AsyncIterable<T>>;
+  /**
+   * The transport the stream runs over. Defaults to "batch-stream". The
+   * stream reconnects over the new transport when it changes.
+   */
+  transport?: StreamTransport;
+  /**
+   * Reconnect with exponential backoff when the stream fails.
+   * The queryFn is invoked again on each attempt and is responsible for
+   * resuming from the last version it applied. Defaults to true.
+   */
+  reconnect?: boolean | ReconnectOptions;
+  /**
+   * Records connection events (connects, errors, reconnects) alongside the
+   * messages recorded by the SyncState the queryFn applies them to, so the
+   * session can be exported and replayed.
+   */
+  recorder?: SessionRecorder<T>;
 }
 
 /**
@@ -47,45 +138,98 @@ interface UseSyncStateStreamParam<T> {
 interface UseSyncStateStreamReturn<T> {
   state: T | null;
   isStreaming: boolean;
+  isReconnecting: boolean;
   error: string | null;
+  /** Replaces the state outside the stream, e.g. after an optimistic mutation. */
+  setState: (state: T) => void;
+  /** Returns the recorded session, or null without a recorder. */
+  exportSession: () => SessionLog<T> | null;
+  /** The tRPC client the stream runs on, for calls over the same transport. */
+  client: ReturnType<typeof useTrpc>;
+}
+
+/**
+ * Resolves after the given delay, or early if the signal is aborted
+ */
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+    const timeout = setTimeout(() => {
+      // Remove the listener so reconnect attempts don't pile them up
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 /**
  * Generic hook for streaming data
- * Handles the boilerplate of managing state, errors, and consuming async iterables
+ * Handles the boilerplate of managing state, errors, reconnection and consuming async iterables
  * The queryFn is responsible for any data transformation (e.g., applying SyncState operations)
  */
 export function useSyncStateStream<T>({
   queryFn,
+  transport = "batch-stream",
+  reconnect = true,
+  recorder,
 }: UseSyncStateStreamParam<T>): UseSyncStateStreamReturn<T> {
   const [state, setState] = useState<T | null>(null);
   const [isStreaming, setIsStreaming] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const trpcClient = useTrpc();
+  const trpcClient = useTrpc(transport);
+
+  const enabled = reconnect !== false;
+  const { initialDelayMs = 1000, maxDelayMs = 30000 } =
+    typeof reconnect === "object" ? reconnect : {};
 
   useEffect(() => {
     const abortController = new AbortController();
+    const { signal } = abortController;
     setIsStreaming(true);
     setError(null);
 
     const startStreaming = async () => {
-      try {
-        const iterable = await queryFn(trpcClient);
-        for await (const value of iterable) {
-          if (abortController.signal.aborted) break;
-          setState(value);
-        }
-      } catch (err) {
-        if (abortController.signal.aborted) {
-          // Ignore errors from aborted requests
-          return;
-        }
-        console.error("Streaming error:", err);
-        setError(err instanceof Error ? err.message : "Unknown error");
-      } finally {
-        if (!abortController.signal.aborted) {
-          setIsStreaming(false);
+      let delayMs = initialDelayMs;
+
+      while (!signal.aborted) {
+        try {
+          const iterable = await queryFn(trpcClient, transport);
+          recorder?.note(`Stream connected over ${transport}`);
+          for await (const value of iterable) {
+            if (signal.aborted) break;
+            setState(value);
+            setError(null);
+            setIsReconnecting(false);
+            delayMs = initialDelayMs;
+          }
+          // The stream completed normally
+          break;
+        } catch (err) {
+          if (signal.aborted) {
+            // Ignore errors from aborted requests
+            return;
+          }
+          console.error("Streaming error:", err);
+          const message = err instanceof Error ? err.message : "Unknown error";
+          recorder?.note(`Stream error: ${message}`);
+          setError(message);
+          if (!enabled) break;
         }
+
+        setIsReconnecting(true);
+        recorder?.note(`Reconnecting in ${delayMs}ms`);
+        await wait(delayMs, signal);
+        delayMs = Math.min(delayMs * 2, maxDelayMs);
+      }
+
+      if (!signal.aborted) {
+        setIsStreaming(false);
+        setIsReconnecting(false);
       }
     };
 
@@ -94,7 +238,28 @@ export function useSyncStateStream<T>({
     return () => {
       abortController.abort();
     };
-  }, [trpcClient, queryFn]);
+  }, [
+    trpcClient,
+    transport,
+    queryFn,
+    enabled,
+    initialDelayMs,
+    maxDelayMs,
+    recorder,
+  ]);
+
+  const exportSession = useCallback(
+    () => recorder?.export() ?? null,
+    [recorder]
+  );
 
-  return { state, isStreaming, error };
+  return {
+    state,
+    isStreaming,
+    isReconnecting,
+    error,
+    setState,
+    exportSession,
+    client: trpcClient,
+  };
 }
@@ -0,0 +1,231 @@
+import { useCallback, useRef, useState } from "react";
+import { ZodType } from "zod";
+import {
+  PatchOperation,
+  PendingMutation,
+  SchemaHandshake,
+  SchemaOffer,
+  SchemaRegistry,
+  SessionRecorder,
+  SyncMessage,
+  SyncState,
+} from "@/lib/sync-state";
+import { subscriptionIterable, SubscriptionHandlers } from "./subscription";
+import { StreamTransport, useSyncStateStream, useTrpc } from "./trpc";
+
+/**
+ * Input of a sync procedure's stream
+ */
+type StreamInput = {
+  channelId?: string;
+  sinceVersion?: number;
+  epoch?: string;
+  schema?: SchemaOffer;
+};
+
+/**
+ * Messages of a sync procedure's stream
+ */
+type StreamMessage = SchemaHandshake | SyncMessage<unknown>;
+
+/**
+ * The tRPC client of a router created by defineSyncProcedure
+ */
+interface SyncProcedureClient {
+  stream: {
+    query: (input: StreamInput) => Promise<AsyncIterable<StreamMessage>>;
+  };
+  subscribe: {
+    subscribe: (
+      input: StreamInput,
+      handlers: SubscriptionHandlers<StreamMessage>
+    ) => { unsubscribe(): void };
+  };
+  update: {
+    mutate: (input: {
+      channelId?: string;
+      operations: PatchOperation[];
+      mutationId?: string;
+      baseVersion?: number;
+      epoch?: string;
+      baseMutationIds?: string[];
+      schemaVersion?: number;
+    }) => Promise<{ version: number }>;
+  };
+}
+
+/**
+ * Parameters for the useSyncProcedure hook
+ */
+interface UseSyncProcedureParam<T extends object | object[]> {
+  /**
+   * Selects the procedure's router on the tRPC client, e.g.
+   * `(client) => client.objects`. Must be stable, e.g. defined outside the
+   * component.
+   */
+  procedure: (client: ReturnType<typeof useTrpc>) => SyncProcedureClient;
+  /** The schema or registry passed to defineSyncProcedure on the server. */
+  schema: SchemaRegistry<T> | ZodType<T>;
+  /** The state until the first snapshot arrives. */
+  initialState: T;
+  /** The channel to stream. Defaults to "default". Must not change. */
+  channelId?: string;
+  /**
+   * The transport to stream over and send edits with. Defaults to
+   * "batch-stream". Changing it reconnects, and switching to or from
+   * "websocket" starts over from a snapshot, since the WebSocket server runs
+   * its own channels.
+   */
+  transport?: StreamTransport;
+  /** Records the session so it can be exported with exportSession(). */
+  recorder?: SessionRecorder<T>;
+  /** Called when an optimistic mutation is rolled back. */
+  onRollback?: (mutation: PendingMutation, reason: unknown) => void;
+}
+
+/**
+ * Returns the server a transport streams from: "batch-stream" and "sse" both
+ * reach the Next.js server, while "websocket" reaches the standalone server in
+ * server/ws.ts, which runs its own channels
+ */
+function channelSource(transport: StreamTransport): "http" | "websocket" {
+  return transport === "websocket" ? "websocket" : "http";
+}
+
+/**
+ * Hook that streams the state of a procedure created by defineSyncProcedure
+ * over the chosen transport
+ * Starts from the server's snapshot and applies versioned patch envelopes,
+ * translated from the schema version negotiated with the server, and resumes
+ * from the last applied version after a dropped connection. `mutate` applies a
+ * change optimistically and sends its operations to the server, rolling it
+ * back if the server rejects them
+ */
+export function useSyncProcedure<T extends object | object[]>({
+  procedure,
+  schema,
+  initialState,
+  channelId,
+  transport,
+  recorder,
+  onRollback,
+}: UseSyncProcedureParam<T>) {
+  const [schemas] = useState(() => SchemaRegistry.from(schema));
+  const [syncState] = useState(
+    () =>
+      new SyncState({
+        schema: schemas.schema,
+        initialState,
+        recorder,
+        onRollback,
+      })
+  );
+
+  // Last version applied from the stream; undefined until the first snapshot arrives
+  const versionRef = useRef<number | undefined>(undefined);
+
+  // Schema version the server streams in, agreed on in the stream's handshake
+  const schemaVersionRef = useRef(schemas.latest);
+
+  // Server the last version was streamed from. The WebSocket server runs in
+  // its own process with its own channels, so its versions are not comparable
+  const sourceRef = useRef<ReturnType<typeof channelSource> | undefined>(
+    undefined
+  );
+
+  const queryFn = useCallback(
+    async (client: ReturnType<typeof useTrpc>, transport: StreamTransport) => {
+      // Create an async generator that applies messages and yields states
+      async function* stateGenerator() {
+        // Resume from the last applied version so a reconnect only replays
+        // missed patches, unless they can only be translated from a snapshot
+        // or the version came from another server's channel
+        const canResume =
+          channelSource(transport) === sourceRef.current &&
+          schemas.canTranslateOperations(
+            schemaVersionRef.current,
+            schemas.latest
+          );
+        const input = {
+          channelId,
+          sinceVersion: canResume ? versionRef.current : undefined,
+          epoch: syncState.epoch,
+          schema: schemas.offer(),
+        };
+        // SSE and WebSockets carry streams as subscriptions
+        const messages =
+          transport === "batch-stream"
+            ? await procedure(client).stream.query(input)
+            : subscriptionIterable<StreamMessage>((handlers) =>
+                procedure(client).subscribe.subscribe(input, handlers)
+              );
+        // Replaced by a translator from the negotiated version on handshake
+        let translator = schemas.translator(schemas.latest);
+        for await (const message of messages) {
+          if (message.type === "handshake") {
+            schemaVersionRef.current = message.version;
+            translator = schemas.translator(message.version);
+            continue;
+          }
+          syncState.receive(translator.translate(message));
+          versionRef.current = syncState.version;
+          sourceRef.current = channelSource(transport);
+          yield syncState.state;
+        }
+      }
+
+      return stateGenerator();
+    },
+    [procedure, channelId, schemas, syncState]
+  );
+
+  const stream = useSyncStateStream<T>({ queryFn, transport, recorder });
+  const { setState, client: trpcClient } = stream;
+
+  /**
+   * Applies a mutation optimistically and sends its operations to the server,
+   * which applies them and streams them back to every viewer. The local change
+   * is rolled back if the server rejects it
+   */
+  const mutate = useCallback(
+    async (mutator: (state: T) => T) => {
+      const mutation = syncState.mutateOptimistic(mutator);
+      if (mutation.operations.length === 0) {
+        return;
+      }
+      setState(syncState.state);
+
+      try {
+        // Send the operations in the version the server streams in
+        const schemaVersion = schemaVersionRef.current;
+        const operations = schemas.translateOperations(
+          mutation.operations,
+          schemas.latest,
+          schemaVersion
+        );
+        if (operations === null) {
+          throw new Error(
+            `Edits cannot be sent in schema version ${schemaVersion}`
+          );
+        }
+        const { version } = await procedure(trpcClient).update.mutate({
+          channelId,
+          operations,
+          schemaVersion,
+          mutationId: mutation.id,
+          baseVersion: mutation.baseVersion,
+          epoch: syncState.epoch,
+          baseMutationIds: mutation.baseMutationIds,
+        });
+        syncState.confirm(mutation.id, version);
+      } catch (err) {
+        syncState.reject(mutation.id, err);
+        setState(syncState.state);
+        throw err;
+      }
+    },
+    [procedure, channelId, schemas, syncState, trpcClient, setState]
+  );
+
+  return { ...stream, mutate, syncState };
+}
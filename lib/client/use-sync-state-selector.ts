@@ -0,0 +1,71 @@
+import { useCallback, useRef, useSyncExternalStore } from "react";
+import { shareStructure, SyncState } from "@/lib/sync-state";
+
+/**
+ * The selected value, together with the SyncState and path it was read from.
+ */
+interface Selection {
+  syncState: SyncState<object | object[]>;
+  path: string;
+  value: unknown;
+}
+
+/**
+ * Hook that selects the value at a JSON Pointer in a SyncState and re-renders
+ * only when an operation touches that path (see SyncState.subscribe()).
+ * Unchanged objects and arrays inside the value keep their identity across
+ * updates, so components receiving them can skip rendering with React.memo.
+ * The value includes pending optimistic mutations and must not be modified.
+ *
+ * @param syncState - The SyncState to read from.
+ * @param path - The JSON Pointer of the value, e.g. "/messages/3"; "" selects the whole state.
+ * @returns The value at the path, or undefined if it does not exist.
+ */
+export function useSyncStateSelector<V = unknown>(
+  syncState: SyncState<object | object[]>,
+  path: string
+): V | undefined {
+  const selectionRef = useRef<Selection | null>(null);
+
+  /**
+   * Stores a newly read value, reusing the parts of the previous one that did
+   * not change, and returns whether anything changed.
+   */
+  const update = useCallback(
+    (value: unknown) => {
+      const previous = selectionRef.current;
+      const isSame =
+        previous?.syncState === syncState && previous.path === path;
+      const shared = isSame ? shareStructure(previous.value, value) : value;
+      selectionRef.current = { syncState, path, value: shared };
+      return !isSame || shared !== previous.value;
+    },
+    [syncState, path]
+  );
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const unsubscribe = syncState.subscribe(path, (value) => {
+        if (update(value)) {
+          onChange();
+        }
+      });
+      // Catch changes made between rendering and subscribing
+      if (update(syncState.getValue(path))) {
+        onChange();
+      }
+      return unsubscribe;
+    },
+    [syncState, path, update]
+  );
+
+  const getSnapshot = useCallback(() => {
+    const selection = selectionRef.current;
+    if (selection?.syncState !== syncState || selection.path !== path) {
+      update(syncState.getValue(path));
+    }
+    return selectionRef.current!.value as V | undefined;
+  }, [syncState, path, update]);
+
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
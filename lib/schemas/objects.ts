@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { PatchOperation, SchemaRegistry } from "@/lib/sync-state";
+
+/**
+ * Version 1: objects with a count
+ */
+const objectsStateV1 = z.array(z.object({ count: z.number() }));
+
+type ObjectsStateV1 = z.infer<typeof objectsStateV1>;
+
+/**
+ * Version 2: objects can be starred
+ */
+const objectsStateV2 = z.array(
+  z.object({
+    count: z.number(),
+    starred: z.boolean().optional(),
+  })
+);
+
+type ObjectsStateV2 = z.infer<typeof objectsStateV2>;
+
+/**
+ * Removes the starred flag from objects written by an operation
+ */
+function unstar(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(unstar);
+  }
+  if (typeof value === "object" && value !== null && "starred" in value) {
+    return Object.fromEntries(
+      Object.entries(value).filter(([key]) => key !== "starred")
+    );
+  }
+  return value;
+}
+
+/**
+ * Returns whether an operation targets the starred flag of an object
+ */
+function isStarredPath(path: string) {
+  return /^\/[^/]+\/starred$/.test(path);
+}
+
+/**
+ * Versions of the state streamed by the objects procedures, shared by
+ * the server and the client so both are built against the same schemas
+ */
+export const objectsSchemas = new SchemaRegistry({
+  name: "objects",
+  versions: [
+    { version: 1, schema: objectsStateV1 },
+    {
+      version: 2,
+      schema: objectsStateV2,
+      migration: {
+        // Every version 1 state is a valid version 2 state
+        up: (state: ObjectsStateV1): ObjectsStateV2 => state,
+        down: (state: ObjectsStateV2): ObjectsStateV1 =>
+          state.map(({ count }) => ({ count })),
+        upOperations: (operations) => operations,
+        downOperations: (operations) =>
+          operations.flatMap((operation): PatchOperation[] => {
+            if (isStarredPath(operation.path)) {
+              return [];
+            }
+            if (operation.op === "add" || operation.op === "replace") {
+              return [{ ...operation, value: unstar(operation.value) }];
+            }
+            return [operation];
+          }),
+      },
+    },
+  ],
+});
+
+/**
+ * Schema of the latest version of the streamed state
+ */
+export const objectsStateSchema = objectsSchemas.schema;
+
+export type ObjectsState = ObjectsStateV2;
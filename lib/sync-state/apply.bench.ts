@@ -0,0 +1,137 @@
+/**
+ * Benchmarks applying small patches to and making small changes in a large
+ * state, comparing the structural-sharing apply path with copying the whole
+ * document first, draft mutations with diffing the whole document, and
+ * diffing keyed arrays by identity.
+ *
+ * Run with `bun run bench`. Set BENCH_ITEMS to change the state size.
+ */
+import { z } from "zod";
+import { applyImmutable } from "./immutable";
+import { JsonPatch } from "./json-patch";
+import { applyOperations, PatchOperation } from "./splice";
+import { SyncState } from "./sync-state";
+
+const ITEMS = Number(process.env.BENCH_ITEMS ?? 10_000);
+
+/**
+ * Time each case runs for, in milliseconds.
+ */
+const DURATION_MS = 500;
+
+const schema = z.object({
+  items: z.array(
+    z.object({ id: z.number(), content: z.string(), done: z.boolean() })
+  ),
+});
+
+type State = z.infer<typeof schema>;
+
+const state: State = {
+  items: Array.from({ length: ITEMS }, (_, id) => ({
+    id,
+    content: `Item ${id} `.repeat(10),
+    done: false,
+  })),
+};
+
+/**
+ * Returns a patch that changes one item, as a streaming update would.
+ */
+function patchFor(i: number): PatchOperation[] {
+  const index = i % ITEMS;
+  return [
+    {
+      op: "splice",
+      path: `/items/${index}/content`,
+      offset: 0,
+      remove: 0,
+      value: "x",
+    },
+    { op: "replace", path: `/items/${index}/done`, value: i % 2 === 0 },
+  ];
+}
+
+/**
+ * Runs a case repeatedly for DURATION_MS and returns its throughput.
+ */
+function measure(name: string, run: (i: number) => void) {
+  // Warm up so the JIT compiles the case before it is timed
+  for (let i = 0; i < 5; i++) {
+    run(i);
+  }
+  let iterations = 0;
+  const start = performance.now();
+  while (performance.now() - start < DURATION_MS) {
+    run(iterations++);
+  }
+  const elapsed = performance.now() - start;
+  return {
+    case: name,
+    "ops/s": Math.round((iterations / elapsed) * 1000),
+    "ms/op": Number((elapsed / iterations).toFixed(3)),
+  };
+}
+
+const patcher = new JsonPatch({ schema });
+const syncState = new SyncState({ schema, initialState: state });
+
+console.log(`Applying a two-operation patch to ${ITEMS} items`);
+console.table([
+  measure("structuredClone + apply in place", (i) => {
+    applyOperations(structuredClone(state), patchFor(i));
+  }),
+  measure("applyImmutable", (i) => {
+    applyImmutable(state, patchFor(i));
+  }),
+  measure("JsonPatch.apply (with validation)", (i) => {
+    patcher.apply({ original: state, patch: patchFor(i) });
+  }),
+  measure("SyncState.apply + state", (i) => {
+    syncState.apply({
+      baseVersion: syncState.version,
+      version: syncState.version + 1,
+      operations: patchFor(i),
+    });
+    void syncState.state;
+  }),
+]);
+
+const mutated = new SyncState({ schema, initialState: state });
+
+console.log(`Changing one of ${ITEMS} items`);
+console.table([
+  measure("SyncState.mutateAndDiff", (i) => {
+    mutated.mutateAndDiff((current) => {
+      current.items[i % ITEMS].done = !current.items[i % ITEMS].done;
+      return current;
+    });
+  }),
+  measure("SyncState.mutate", (i) => {
+    mutated.mutate((draft) => {
+      draft.items[i % ITEMS].done = !draft.items[i % ITEMS].done;
+    });
+  }),
+]);
+
+const keyed = new JsonPatch({ schema, arrayKeys: { "/items": "id" } });
+
+/**
+ * Returns the state with one item moved to the front, one removed and one
+ * added, as reordering a keyed list would.
+ */
+function reorderedFor(i: number): State {
+  const items = [...state.items];
+  const [moved] = items.splice(i % ITEMS, 1);
+  items.splice((i + 1) % items.length, 1);
+  items.unshift(moved);
+  items.push({ id: ITEMS + i, content: "New", done: false });
+  return { items };
+}
+
+console.log(`Diffing ${ITEMS} items by identity`);
+console.table([
+  measure("JsonPatch.diff with arrayKeys", (i) => {
+    keyed.diff({ original: state, updated: reorderedFor(i), validate: false });
+  }),
+]);
@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import { PatchBatcher } from "./batcher";
+import { PatchEnvelope } from "./envelope";
+
+/**
+ * Helper function to create a batcher that records what it flushes.
+ */
+function createBatcher(param: {
+  flushIntervalMs?: number;
+  maxOperations?: number;
+}) {
+  const flushed: PatchEnvelope[] = [];
+  const batcher = new PatchBatcher({
+    ...param,
+    onFlush: (envelope) => flushed.push(envelope),
+  });
+  return { batcher, flushed };
+}
+
+/**
+ * Helper function to create an envelope appending text at an offset.
+ */
+function append(version: number, offset: number, value: string) {
+  return {
+    baseVersion: version - 1,
+    version,
+    operations: [
+      { op: "splice" as const, path: "/text", offset, remove: 0, value },
+    ],
+  };
+}
+
+/**
+ * Helper function to wait for timers to fire.
+ */
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("PatchBatcher", () => {
+  test("should flush one coalesced envelope after the interval", async () => {
+    const { batcher, flushed } = createBatcher({ flushIntervalMs: 5 });
+
+    batcher.push(append(1, 0, "Hel"));
+    batcher.push(append(2, 3, "lo"));
+    expect(flushed).toEqual([]);
+
+    await sleep(20);
+
+    expect(flushed).toEqual([
+      {
+        baseVersion: 0,
+        version: 2,
+        operations: [
+          { op: "splice", path: "/text", offset: 0, remove: 0, value: "Hello" },
+        ],
+      },
+    ]);
+    expect(batcher.pending).toBe(false);
+  });
+
+  test("should flush immediately when the batch reaches maxOperations", () => {
+    const { batcher, flushed } = createBatcher({ maxOperations: 2 });
+
+    batcher.push({
+      baseVersion: 0,
+      version: 1,
+      operations: [{ op: "add", path: "/a", value: 1 }],
+    });
+    batcher.push({
+      baseVersion: 1,
+      version: 2,
+      operations: [{ op: "add", path: "/b", value: 2 }],
+    });
+
+    expect(flushed).toHaveLength(1);
+    expect(flushed[0].version).toBe(2);
+  });
+
+  test("should pass envelopes with a mutationId through unmerged", () => {
+    const { batcher, flushed } = createBatcher({});
+    const confirmed = { ...append(2, 3, "lo"), mutationId: "m1" };
+
+    batcher.push(append(1, 0, "Hel"));
+    batcher.push(confirmed);
+
+    expect(flushed).toEqual([append(1, 0, "Hel"), confirmed]);
+  });
+
+  test("should start a new batch for a non-consecutive envelope", () => {
+    const { batcher, flushed } = createBatcher({});
+
+    batcher.push(append(1, 0, "a"));
+    batcher.push(append(5, 0, "b"));
+    batcher.flush();
+
+    expect(flushed).toEqual([append(1, 0, "a"), append(5, 0, "b")]);
+  });
+});
@@ -0,0 +1,124 @@
+import { coalesceOperations } from "./coalesce";
+import { PatchEnvelope } from "./envelope";
+
+/**
+ * Default time an envelope may wait before its batch is flushed.
+ */
+const DEFAULT_FLUSH_INTERVAL_MS = 50;
+
+/**
+ * Default number of coalesced operations that triggers an immediate flush.
+ */
+const DEFAULT_MAX_OPERATIONS = 100;
+
+/**
+ * Options controlling when a PatchBatcher flushes.
+ */
+export interface PatchBatchOptions {
+  /** Longest time an envelope is held before it is flushed. Defaults to 50. */
+  flushIntervalMs?: number;
+  /** Flush as soon as the batch holds this many operations. Defaults to 100. */
+  maxOperations?: number;
+}
+
+/**
+ * Parameters for constructing a PatchBatcher instance.
+ */
+interface PatchBatcherParam extends PatchBatchOptions {
+  /** Receives each flushed envelope. */
+  onFlush: (envelope: PatchEnvelope) => void;
+}
+
+/**
+ * Accumulates consecutive envelopes and flushes them as a single envelope
+ * spanning all of their versions, with redundant operations coalesced. A batch
+ * is flushed once its oldest envelope has waited `flushIntervalMs`, or as soon
+ * as it holds `maxOperations` operations.
+ *
+ * Envelopes that carry a mutationId are never merged, since clients match them
+ * to their optimistic mutations; they flush the current batch and are passed
+ * on as they are.
+ */
+export class PatchBatcher {
+  private readonly onFlush: (envelope: PatchEnvelope) => void;
+  private readonly flushIntervalMs: number;
+  private readonly maxOperations: number;
+  private batch: PatchEnvelope | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Creates a new PatchBatcher instance.
+   *
+   * @param param - Configuration object containing the flush callback and limits.
+   */
+  constructor({
+    onFlush,
+    flushIntervalMs = DEFAULT_FLUSH_INTERVAL_MS,
+    maxOperations = DEFAULT_MAX_OPERATIONS,
+  }: PatchBatcherParam) {
+    this.onFlush = onFlush;
+    this.flushIntervalMs = flushIntervalMs;
+    this.maxOperations = maxOperations;
+  }
+
+  /**
+   * Adds an envelope to the current batch. An envelope that does not continue
+   * the batch (its baseVersion is not the batch's version) starts a new one.
+   *
+   * @param envelope - The envelope to add.
+   */
+  push(envelope: PatchEnvelope): void {
+    if (envelope.mutationId !== undefined) {
+      this.flush();
+      this.onFlush(envelope);
+      return;
+    }
+
+    if (this.batch && this.batch.version !== envelope.baseVersion) {
+      this.flush();
+    }
+
+    this.batch = this.batch
+      ? {
+          baseVersion: this.batch.baseVersion,
+          version: envelope.version,
+          operations: coalesceOperations([
+            ...this.batch.operations,
+            ...envelope.operations,
+          ]),
+        }
+      : {
+          baseVersion: envelope.baseVersion,
+          version: envelope.version,
+          operations: coalesceOperations(envelope.operations),
+        };
+
+    if (this.batch.operations.length >= this.maxOperations) {
+      this.flush();
+    } else if (this.timer === null) {
+      this.timer = setTimeout(() => this.flush(), this.flushIntervalMs);
+    }
+  }
+
+  /**
+   * Flushes the current batch, if any, immediately.
+   */
+  flush(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const batch = this.batch;
+    this.batch = null;
+    if (batch) {
+      this.onFlush(batch);
+    }
+  }
+
+  /**
+   * Returns whether envelopes are waiting to be flushed.
+   */
+  get pending(): boolean {
+    return this.batch !== null;
+  }
+}
@@ -0,0 +1,248 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import { PatchBatchOptions } from "./batcher";
+import { SyncChannel, SyncChannelRegistry } from "./channel";
+import { SyncMessage } from "./envelope";
+import { SessionRecorder, SessionReplay } from "./session";
+import { SyncState } from "./sync-state";
+
+const schema = z.array(z.object({ count: z.number() }));
+type State = z.infer<typeof schema>;
+
+/**
+ * Helper function to create a channel for the test schema.
+ */
+function createChannel(
+  param: { queueLimit?: number; batch?: PatchBatchOptions } = {}
+) {
+  return new SyncChannel({ id: "test", schema, initialState: [], ...param });
+}
+
+/**
+ * Helper function to pull the next message from a subscription.
+ */
+async function next(
+  subscription: AsyncGenerator<SyncMessage<State>>
+): Promise<SyncMessage<State>> {
+  const result = await subscription.next();
+  if (result.done) {
+    throw new Error("Subscription ended");
+  }
+  return result.value;
+}
+
+describe("SyncChannel", () => {
+  test("should fan out envelopes to every subscriber", async () => {
+    const channel = createChannel();
+    const first = channel.subscribe();
+    const second = channel.subscribe();
+
+    // Start both subscriptions with their snapshots
+    expect((await next(first)).type).toBe("snapshot");
+    expect((await next(second)).type).toBe("snapshot");
+
+    const envelope = channel.mutateAndDiff((state) => [...state, { count: 1 }]);
+
+    expect(await next(first)).toEqual({ type: "patch", envelope });
+    expect(await next(second)).toEqual({ type: "patch", envelope });
+  });
+
+  test("should let subscribers reconstruct the shared state", async () => {
+    const channel = createChannel();
+    channel.mutateAndDiff((state) => [...state, { count: 1 }]);
+
+    const subscription = channel.subscribe();
+    const client = new SyncState<State>({ schema, initialState: [] });
+    client.receive(await next(subscription));
+
+    channel.mutateAndDiff((state) => [...state, { count: 2 }]);
+    client.receive(await next(subscription));
+
+    expect(client.state).toEqual(channel.state);
+    expect(client.version).toBe(channel.version);
+  });
+
+  test("should remove subscribers when their signal is aborted", async () => {
+    const channel = createChannel();
+    const abortController = new AbortController();
+    const subscription = channel.subscribe({ signal: abortController.signal });
+
+    await next(subscription);
+    expect(channel.subscriberCount).toBe(1);
+
+    const pending = subscription.next();
+    abortController.abort();
+
+    expect((await pending).done).toBe(true);
+    expect(channel.subscriberCount).toBe(0);
+  });
+
+  test("should end subscriptions when the channel closes", async () => {
+    const channel = createChannel();
+    const subscription = channel.subscribe();
+    await next(subscription);
+
+    const pending = subscription.next();
+    channel.close();
+
+    expect((await pending).done).toBe(true);
+    expect(channel.subscriberCount).toBe(0);
+  });
+
+  test("should collapse a slow subscriber's backlog into a snapshot", async () => {
+    const channel = createChannel({ queueLimit: 2 });
+    const subscription = channel.subscribe();
+    await next(subscription);
+
+    channel.mutateAndDiff((state) => [...state, { count: 1 }]);
+    channel.mutateAndDiff((state) => [...state, { count: 2 }]);
+    channel.mutateAndDiff((state) => [...state, { count: 3 }]);
+
+    expect(await next(subscription)).toEqual({
+      type: "snapshot",
+      snapshot: {
+        version: 3,
+        state: [{ count: 1 }, { count: 2 }, { count: 3 }],
+        epoch: channel.epoch,
+      },
+    });
+  });
+});
+
+describe("SyncChannel client operations", () => {
+  test("should rebroadcast applied operations to every subscriber", async () => {
+    const channel = createChannel();
+    const first = channel.subscribe();
+    const second = channel.subscribe();
+    await next(first);
+    await next(second);
+
+    const envelope = await channel.applyOperations([
+      { op: "add", path: "/-", value: { count: 1 } },
+    ]);
+
+    expect(await next(first)).toEqual({ type: "patch", envelope });
+    expect(await next(second)).toEqual({ type: "patch", envelope });
+    expect(channel.state).toEqual([{ count: 1 }]);
+  });
+});
+
+describe("SyncChannel session recording", () => {
+  test("should record every change made to the channel", async () => {
+    const recorder = new SessionRecorder<State>();
+    const channel = new SyncChannel({
+      id: "test",
+      schema,
+      initialState: [],
+      recorder,
+    });
+
+    channel.mutateAndDiff((state) => [...state, { count: 1 }]);
+    channel.mutate((draft) => {
+      draft[0].count = 2;
+    });
+    await channel.applyOperations([
+      { op: "add", path: "/-", value: { count: 3 } },
+    ]);
+    const log = recorder.export();
+    const replay = new SessionReplay({ schema, log });
+    replay.seek(log.entries.length);
+
+    expect(log.entries).toHaveLength(4);
+    expect(replay.version).toBe(channel.version);
+    expect(replay.state).toEqual(channel.state);
+  });
+});
+
+describe("SyncChannel undo", () => {
+  test("should publish the envelope that reverts a change", async () => {
+    const channel = new SyncChannel({
+      id: "test",
+      schema,
+      initialState: [],
+      undoLimit: 10,
+    });
+    channel.mutateAndDiff((state) => [...state, { count: 1 }]);
+    const subscription = channel.subscribe();
+    await next(subscription);
+
+    const envelope = channel.undo();
+
+    expect(envelope).not.toBeNull();
+    expect(await next(subscription)).toEqual({
+      type: "patch",
+      envelope: envelope!,
+    });
+    expect(channel.state).toEqual([]);
+  });
+});
+
+describe("SyncChannel batching", () => {
+  test("should publish batched mutations as one envelope", async () => {
+    const channel = createChannel({ batch: { flushIntervalMs: 5 } });
+    const subscription = channel.subscribe();
+    const client = new SyncState<State>({ schema, initialState: [] });
+    client.receive(await next(subscription));
+
+    channel.mutateAndDiff((state) => [...state, { count: 1 }]);
+    channel.mutateAndDiff(([item]) => [{ count: item.count + 1 }]);
+    channel.mutateAndDiff(([item]) => [{ count: item.count + 1 }]);
+    const message = await next(subscription);
+    client.receive(message);
+
+    expect(message).toEqual({
+      type: "patch",
+      envelope: {
+        baseVersion: 0,
+        version: 3,
+        operations: [
+          { op: "add", path: "/0", value: { count: 1 } },
+          { op: "replace", path: "/0/count", value: 3 },
+        ],
+      },
+    });
+    expect(client.state).toEqual(channel.state);
+  });
+
+  test("should flush the pending batch before a subscriber joins", async () => {
+    const channel = createChannel({ batch: { flushIntervalMs: 1000 } });
+    const first = channel.subscribe();
+    await next(first);
+
+    channel.mutateAndDiff((state) => [...state, { count: 1 }]);
+    const second = channel.subscribe();
+    const client = new SyncState<State>({ schema, initialState: [] });
+    client.receive(await next(second));
+    channel.mutateAndDiff((state) => [...state, { count: 2 }]);
+    channel.close();
+    client.receive(await next(second));
+
+    expect((await next(first)).type).toBe("patch");
+    expect(client.state).toEqual([{ count: 1 }, { count: 2 }]);
+    expect(client.version).toBe(2);
+  });
+});
+
+describe("SyncChannelRegistry", () => {
+  test("should return the same channel for the same id", () => {
+    const registry = new SyncChannelRegistry<State>({
+      create: (id) => new SyncChannel({ id, schema, initialState: [] }),
+    });
+
+    expect(registry.get("a")).toBe(registry.get("a"));
+    expect(registry.get("a")).not.toBe(registry.get("b"));
+  });
+
+  test("should remove channels when they close", () => {
+    const registry = new SyncChannelRegistry<State>({
+      create: (id) => new SyncChannel({ id, schema, initialState: [] }),
+    });
+
+    const channel = registry.get("a");
+    registry.close("a");
+
+    expect(channel.closed).toBe(true);
+    expect(registry.has("a")).toBe(false);
+    expect(registry.get("a")).not.toBe(channel);
+  });
+});
@@ -0,0 +1,745 @@
+import { JsonPatchError } from "fast-json-patch";
+import { ZodError, ZodType } from "zod";
+import { PatchBatcher, PatchBatchOptions } from "./batcher";
+import { ArrayKeys } from "./diff";
+import { PatchEnvelope, SyncMessage } from "./envelope";
+import { SyncStateGapError } from "./errors";
+import { SessionRecorder } from "./session";
+import { PatchOperation } from "./splice";
+import { ApplyOperationsOptions, SyncState } from "./sync-state";
+import { ForwardRejection, SyncTransport, TransportMessage } from "./transport";
+import { ValidationOptions } from "./validation-policy";
+
+/**
+ * Default number of undelivered messages a subscriber may accumulate before
+ * its queue is collapsed into a single snapshot.
+ */
+const DEFAULT_QUEUE_LIMIT = 100;
+
+/**
+ * Default time a forwarded applyOperations() call waits for the owner.
+ */
+const DEFAULT_FORWARD_TIMEOUT_MS = 10_000;
+
+/**
+ * Parameters for constructing a SyncChannel instance.
+ */
+interface SyncChannelParam<T extends object | object[]> {
+  id: string;
+  schema: ZodType<T>;
+  initialState: T;
+  /** Arrays to diff by item identity instead of by position. */
+  arrayKeys?: ArrayKeys;
+  /** Diff changed strings into splice operations instead of replacing them. */
+  spliceStrings?: boolean;
+  /** Number of envelopes retained for resuming subscribers. Defaults to 100. */
+  historyLimit?: number;
+  /** Number of changes that can be undone. Defaults to 0 (no undo history). */
+  undoLimit?: number;
+  /**
+   * Records the initial state and every change to the channel's state,
+   * including snapshots adopted from the owner, so the session can be replayed
+   * later.
+   */
+  recorder?: SessionRecorder<T>;
+  /**
+   * Close the channel once it has had no subscribers for this long.
+   * Defaults to undefined (never close automatically).
+   */
+  idleTimeoutMs?: number;
+  /** Maximum undelivered messages per subscriber. Defaults to 100. */
+  queueLimit?: number;
+  /**
+   * Shares the channel with instances in other processes. Envelopes produced
+   * here are published to the transport, and envelopes received from it are
+   * applied and fanned out to local subscribers.
+   */
+  transport?: SyncTransport<T>;
+  /**
+   * Whether this instance owns the channel. Only the owner changes the state:
+   * instances sharing its transport forward the operations passed to their
+   * applyOperations() to it, and cannot change the state themselves. Give
+   * each channel exactly one owner. Defaults to true.
+   */
+  owner?: boolean;
+  /**
+   * How long applyOperations() waits for the owner to answer forwarded
+   * operations. Defaults to 10 seconds.
+   */
+  forwardTimeoutMs?: number;
+  /**
+   * Hold envelopes produced here briefly and publish them as one envelope
+   * with redundant operations coalesced. Defaults to undefined (publish every
+   * envelope immediately).
+   */
+  batch?: PatchBatchOptions;
+  /**
+   * How often the channel's state validates changes. Defaults to validating
+   * every change.
+   */
+  validation?: ValidationOptions;
+  /**
+   * Called with errors no caller can catch: failures to publish to or
+   * unsubscribe from the transport, and envelopes received from the transport
+   * that cannot be applied (which are skipped).
+   */
+  onError?: (err: unknown) => void;
+}
+
+/**
+ * Parameters for the subscribe method.
+ */
+interface SubscribeParam {
+  /** The last version the subscriber applied, if resuming. */
+  sinceVersion?: number;
+  /** The epoch of the subscriber's version. */
+  epoch?: string;
+  /** Ends the subscription when aborted (e.g. when the client disconnects). */
+  signal?: AbortSignal;
+}
+
+/**
+ * A single subscriber's queue of undelivered messages.
+ */
+interface Subscriber<T> {
+  queue: SyncMessage<T>[];
+  wake: (() => void) | null;
+}
+
+/**
+ * An applyOperations() call forwarded to the owner, awaiting its answer.
+ */
+interface ForwardedCall {
+  resolve: (envelope: PatchEnvelope) => void;
+  reject: (err: unknown) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Converts an error thrown while applying forwarded operations into a form
+ * that can be sent over a transport.
+ */
+function toRejection(err: unknown): ForwardRejection {
+  if (err instanceof SyncStateGapError) {
+    return {
+      kind: "gap",
+      expectedBaseVersion: err.expectedBaseVersion,
+      receivedBaseVersion: err.receivedBaseVersion,
+    };
+  }
+  if (err instanceof ZodError) {
+    return { kind: "schema", issues: err.issues };
+  }
+  if (err instanceof JsonPatchError) {
+    return {
+      kind: "patch",
+      // The rest of the message repeats the error's fields
+      message: err.message.split("\n")[0],
+      name: err.name,
+      index: err.index,
+      operation: err.operation,
+    };
+  }
+  return { kind: "error", message: String(err) };
+}
+
+/**
+ * Recreates the error the owner of a channel rejected forwarded operations
+ * with, so callers can handle it as if it was thrown locally.
+ */
+function fromRejection(rejection: ForwardRejection): Error {
+  switch (rejection.kind) {
+    case "gap":
+      return new SyncStateGapError(rejection);
+    case "schema":
+      return new ZodError(rejection.issues);
+    case "patch":
+      return new JsonPatchError(
+        rejection.message,
+        rejection.name as JsonPatchError["name"],
+        rejection.index,
+        rejection.operation
+      );
+    case "error":
+      return new Error(rejection.message);
+  }
+}
+
+/**
+ * An authoritative SyncState shared by many subscribers.
+ * Every envelope produced by mutateAndDiff() is fanned out to all subscribers,
+ * each of which consumes the channel as an async generator of SyncMessages.
+ * With a transport, instances of the same channel in other processes receive
+ * the envelopes too and fan them out to their own subscribers, while
+ * forwarding the operations they are given to the one instance that owns the
+ * channel.
+ *
+ * @template T - The type of the state object. Must be an object or array of objects.
+ */
+export class SyncChannel<T extends object | object[]> {
+  readonly id: string;
+  private readonly syncState: SyncState<T>;
+  private readonly idleTimeoutMs: number | undefined;
+  private readonly queueLimit: number;
+  private readonly transport: SyncTransport<T> | undefined;
+  private readonly batcher: PatchBatcher | null;
+  private readonly unsubscribeTransport: Promise<() => Promise<void>> | null;
+  private readonly subscribers = new Set<Subscriber<T>>();
+  private readonly closeListeners = new Set<() => void>();
+  private readonly onError: SyncChannelParam<T>["onError"];
+  private readonly _owner: boolean;
+  private readonly forwardTimeoutMs: number;
+  /** Forwarded applyOperations() calls by the id sent with them. */
+  private readonly forwarded = new Map<string, ForwardedCall>();
+  /** Identifies this instance in messages sent over the transport. */
+  private readonly origin = crypto.randomUUID();
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private _closed = false;
+
+  /**
+   * Creates a new SyncChannel instance.
+   *
+   * @param param - Configuration object containing the id, Zod schema and initial state.
+   * @throws {z.ZodError} If the initial state fails schema validation.
+   * @throws {Error} If the instance is not the owner and has no transport to reach it.
+   */
+  constructor({
+    id,
+    schema,
+    initialState,
+    arrayKeys,
+    spliceStrings,
+    historyLimit = 100,
+    undoLimit,
+    recorder,
+    idleTimeoutMs,
+    queueLimit = DEFAULT_QUEUE_LIMIT,
+    transport,
+    owner = true,
+    forwardTimeoutMs = DEFAULT_FORWARD_TIMEOUT_MS,
+    batch,
+    validation,
+    onError,
+  }: SyncChannelParam<T>) {
+    if (!owner && !transport) {
+      throw new Error(
+        `Channel ${id} is not its owner, so it needs a transport to reach it`
+      );
+    }
+    this.id = id;
+    this.onError = onError;
+    this._owner = owner;
+    this.forwardTimeoutMs = forwardTimeoutMs;
+    this.syncState = new SyncState({
+      schema,
+      initialState,
+      // Versions restart when the channel is recreated, so resuming
+      // subscribers must be on the same run of it
+      epoch: crypto.randomUUID(),
+      arrayKeys,
+      spliceStrings,
+      historyLimit,
+      undoLimit,
+      recorder,
+      validation,
+    });
+    this.idleTimeoutMs = idleTimeoutMs;
+    this.queueLimit = queueLimit;
+    this.transport = transport;
+    this.batcher = batch
+      ? new PatchBatcher({
+          ...batch,
+          onFlush: (envelope) => this.emit(envelope),
+        })
+      : null;
+    this.unsubscribeTransport = transport
+      ? transport
+          .subscribe(id, (message) => this.receive(message))
+          .then((unsubscribe) => {
+            // Ask the owner for its current state
+            this.send({ type: "resync" });
+            return unsubscribe;
+          })
+      : null;
+    this.scheduleIdleClose();
+  }
+
+  /**
+   * Applies a mutation to the authoritative state and publishes the resulting
+   * envelope to every subscriber, as part of the next batch if batching.
+   *
+   * @param mutator - A function that receives a draft of the current state and returns the new state.
+   * @returns The envelope that was published.
+   * @throws {Error} If this instance does not own the channel.
+   * @throws {z.ZodError} If the new state fails schema validation.
+   */
+  mutateAndDiff(mutator: (state: T) => T): PatchEnvelope {
+    this.assertOwner();
+    return this.broadcast(this.syncState.mutateAndDiff(mutator));
+  }
+
+  /**
+   * Applies changes made to a draft of the state and publishes the resulting
+   * envelope to every subscriber (see SyncState.mutate()).
+   *
+   * @param recipe - A function that receives a draft of the current state and changes it in place.
+   * @returns The envelope that was published.
+   * @throws {Error} If this instance does not own the channel.
+   * @throws {z.ZodError} If the new state fails schema validation.
+   */
+  mutate(recipe: (draft: T) => void): PatchEnvelope {
+    this.assertOwner();
+    return this.broadcast(this.syncState.mutate(recipe));
+  }
+
+  /**
+   * Applies operations proposed by a client to the authoritative state and
+   * publishes the resulting envelope to every subscriber. Operations made
+   * against an older version are transformed against the changes since.
+   * Instances that do not own the channel forward the operations to the owner
+   * and resolve once it has applied them, or reject with the error it threw.
+   *
+   * @param operations - An array of JSON Patch operations to apply.
+   * @param options - The client mutation id and the version the operations were made against.
+   * @returns The envelope that was published.
+   * @throws {SyncStateGapError} If the history no longer covers the base version.
+   * @throws {z.ZodError} If the resulting state fails schema validation.
+   * @throws {PatchError} If the patch application fails.
+   * @throws {Error} If the owner does not answer in time or the channel closes first.
+   */
+  async applyOperations(
+    operations: PatchOperation[],
+    options: ApplyOperationsOptions = {}
+  ): Promise<PatchEnvelope> {
+    if (!this._owner) {
+      return this.forward(operations, options);
+    }
+    return this.broadcast(this.syncState.applyOperations(operations, options));
+  }
+
+  /**
+   * Reverts the most recent change made on this instance and publishes the
+   * resulting envelope to every subscriber.
+   *
+   * @returns The envelope that was published, or null if there is nothing to undo.
+   * @throws {Error} If this instance does not own the channel.
+   * @throws {z.ZodError} If the resulting state fails schema validation.
+   */
+  undo(): PatchEnvelope | null {
+    this.assertOwner();
+    const envelope = this.syncState.undo();
+    return envelope && this.broadcast(envelope);
+  }
+
+  /**
+   * Reapplies the most recently undone change and publishes the resulting
+   * envelope to every subscriber.
+   *
+   * @returns The envelope that was published, or null if there is nothing to redo.
+   * @throws {Error} If this instance does not own the channel.
+   * @throws {z.ZodError} If the resulting state fails schema validation.
+   */
+  redo(): PatchEnvelope | null {
+    this.assertOwner();
+    const envelope = this.syncState.redo();
+    return envelope && this.broadcast(envelope);
+  }
+
+  /**
+   * Subscribes to the channel. The generator first yields the messages needed
+   * to catch up (a snapshot for new subscribers and those from another epoch),
+   * then every published envelope, until the signal is aborted or the channel
+   * is closed.
+   *
+   * @param param - The version and epoch to resume from and an abort signal.
+   */
+  async *subscribe({
+    sinceVersion,
+    epoch,
+    signal,
+  }: SubscribeParam = {}): AsyncGenerator<SyncMessage<T>> {
+    if (this._closed) {
+      return;
+    }
+
+    // A batch still pending would straddle the version the subscriber starts at
+    this.batcher?.flush();
+
+    // Register before catching up so no envelope published in between is lost
+    const subscriber: Subscriber<T> = {
+      queue: this.syncState.catchUp(sinceVersion, epoch),
+      wake: null,
+    };
+    this.subscribers.add(subscriber);
+    this.cancelIdleClose();
+
+    const onAbort = () => subscriber.wake?.();
+    signal?.addEventListener("abort", onAbort);
+
+    try {
+      while (!signal?.aborted) {
+        const message = subscriber.queue.shift();
+        if (message) {
+          yield message;
+          continue;
+        }
+        if (this._closed) {
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          subscriber.wake = resolve;
+        });
+        subscriber.wake = null;
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      this.subscribers.delete(subscriber);
+      this.scheduleIdleClose();
+    }
+  }
+
+  /**
+   * Closes the channel, ending every subscription, failing forwarded calls the
+   * owner has not answered and notifying close listeners.
+   */
+  close(): void {
+    if (this._closed) {
+      return;
+    }
+    this.batcher?.flush();
+    this._closed = true;
+    this.cancelIdleClose();
+    this.forwarded.forEach((call, id) =>
+      this.settle(id)?.reject(new Error(`Channel ${this.id} closed`))
+    );
+    this.subscribers.forEach((subscriber) => subscriber.wake?.());
+    this.closeListeners.forEach((listener) => listener());
+    this.unsubscribeTransport
+      ?.then((unsubscribe) => unsubscribe())
+      .catch((err) => this.onError?.(err));
+  }
+
+  /**
+   * Registers a listener that runs when the channel closes.
+   *
+   * @param listener - The function to call on close.
+   * @returns A function that removes the listener.
+   */
+  onClose(listener: () => void): () => void {
+    this.closeListeners.add(listener);
+    return () => this.closeListeners.delete(listener);
+  }
+
+  /**
+   * Returns the current state. It is shared with later states and must not be
+   * modified.
+   */
+  get state(): T {
+    return this.syncState.state;
+  }
+
+  /**
+   * Returns the version of the current state.
+   */
+  get version(): number {
+    return this.syncState.version;
+  }
+
+  /**
+   * Returns the epoch the version belongs to. Instances sharing the channel
+   * through a transport take it over from the snapshots they adopt.
+   */
+  get epoch(): string | undefined {
+    return this.syncState.epoch;
+  }
+
+  /**
+   * Returns whether this instance owns the channel and may change its state.
+   */
+  get owner(): boolean {
+    return this._owner;
+  }
+
+  /**
+   * Returns the number of active subscribers.
+   */
+  get subscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Returns whether the channel has been closed.
+   */
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  private assertOwner(): void {
+    if (!this._owner) {
+      throw new Error(
+        `Only the owner of channel ${this.id} can change it; use applyOperations() to forward operations to it`
+      );
+    }
+  }
+
+  private broadcast(envelope: PatchEnvelope): PatchEnvelope {
+    if (this.batcher) {
+      this.batcher.push(envelope);
+    } else {
+      this.emit(envelope);
+    }
+    return envelope;
+  }
+
+  private emit(envelope: PatchEnvelope): void {
+    this.publish({ type: "patch", envelope });
+    this.send({ type: "patch", envelope, origin: this.origin });
+  }
+
+  private publish(message: SyncMessage<T>): void {
+    this.subscribers.forEach((subscriber) => {
+      if (message.type === "snapshot") {
+        // A snapshot supersedes anything still queued
+        subscriber.queue = [message];
+      } else if (subscriber.queue.length >= this.queueLimit) {
+        // The subscriber has fallen too far behind: replace its backlog with
+        // a snapshot, which already includes this envelope
+        subscriber.queue = [
+          { type: "snapshot", snapshot: this.syncState.snapshot() },
+        ];
+      } else {
+        subscriber.queue.push(message);
+      }
+      subscriber.wake?.();
+    });
+  }
+
+  private send(message: TransportMessage<T>): void {
+    this.transport
+      ?.publish(this.id, message)
+      .catch((err) => this.onError?.(err));
+  }
+
+  private forward(
+    operations: PatchOperation[],
+    options: ApplyOperationsOptions
+  ): Promise<PatchEnvelope> {
+    if (this._closed) {
+      return Promise.reject(new Error(`Channel ${this.id} closed`));
+    }
+    const id = crypto.randomUUID();
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () =>
+          this.settle(id)?.reject(
+            new Error(
+              `The owner of channel ${this.id} did not answer within ${this.forwardTimeoutMs} ms`
+            )
+          ),
+        this.forwardTimeoutMs
+      );
+      this.forwarded.set(id, { resolve, reject, timer });
+      // The answer is only received once subscribed to the transport
+      this.unsubscribeTransport
+        ?.then(() =>
+          this.transport?.publish(this.id, {
+            type: "forward",
+            id,
+            operations,
+            options,
+          })
+        )
+        .catch((err) => this.settle(id)?.reject(err));
+    });
+  }
+
+  private settle(id: string): ForwardedCall | undefined {
+    const call = this.forwarded.get(id);
+    if (call) {
+      clearTimeout(call.timer);
+      this.forwarded.delete(id);
+    }
+    return call;
+  }
+
+  private answer({
+    id,
+    operations,
+    options,
+  }: Extract<TransportMessage<T>, { type: "forward" }>): void {
+    let envelope: PatchEnvelope;
+    try {
+      envelope = this.broadcast(
+        this.syncState.applyOperations(operations, options)
+      );
+    } catch (err) {
+      this.send({ type: "rejected", id, rejection: toRejection(err) });
+      return;
+    }
+    this.send({ type: "applied", id, envelope });
+  }
+
+  private receive(message: TransportMessage<T>): void {
+    if (this._closed) {
+      return;
+    }
+
+    switch (message.type) {
+      case "resync":
+        if (this._owner) {
+          this.send({
+            type: "snapshot",
+            snapshot: this.syncState.snapshot(),
+            origin: this.origin,
+          });
+        }
+        return;
+      case "forward":
+        if (this._owner) {
+          this.answer(message);
+        }
+        return;
+      case "applied":
+        this.settle(message.id)?.resolve(message.envelope);
+        return;
+      case "rejected":
+        this.settle(message.id)?.reject(fromRejection(message.rejection));
+        return;
+    }
+
+    // Snapshots and envelopes sent by this instance come back as duplicates
+    if (message.origin === this.origin) {
+      return;
+    }
+    if (this._owner) {
+      this.onError?.(
+        new Error(`Another instance also owns channel ${this.id}`)
+      );
+      return;
+    }
+
+    const version = this.syncState.version;
+    if (message.type === "snapshot") {
+      // A snapshot from another epoch comes from a restarted owner
+      const { snapshot } = message;
+      if (
+        snapshot.version > version ||
+        snapshot.epoch !== this.syncState.epoch
+      ) {
+        this.syncState.reset(snapshot);
+        this.publish({ type: "snapshot", snapshot });
+      }
+      return;
+    }
+
+    const { envelope } = message;
+    if (envelope.version <= version) {
+      return;
+    }
+
+    try {
+      if (envelope.baseVersion > version) {
+        throw new SyncStateGapError({
+          expectedBaseVersion: version,
+          receivedBaseVersion: envelope.baseVersion,
+        });
+      }
+      this.syncState.apply(envelope);
+    } catch (err) {
+      if (err instanceof SyncStateGapError) {
+        this.send({ type: "resync" });
+      } else {
+        this.onError?.(err);
+      }
+      return;
+    }
+
+    this.publish({ type: "patch", envelope });
+  }
+
+  private scheduleIdleClose(): void {
+    if (
+      this.idleTimeoutMs === undefined ||
+      this.subscribers.size > 0 ||
+      this._closed
+    ) {
+      return;
+    }
+    this.cancelIdleClose();
+    this.idleTimer = setTimeout(() => this.close(), this.idleTimeoutMs);
+  }
+
+  private cancelIdleClose(): void {
+    if (this.idleTimer !== null) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
+
+/**
+ * Parameters for constructing a SyncChannelRegistry instance.
+ */
+interface SyncChannelRegistryParam<T extends object | object[]> {
+  /** Creates the channel for an id the first time it is requested. */
+  create: (id: string) => SyncChannel<T>;
+}
+
+/**
+ * A registry of SyncChannels keyed by id. Channels are created on first use
+ * and removed from the registry when they close.
+ *
+ * @template T - The type of the state object held by each channel.
+ */
+export class SyncChannelRegistry<T extends object | object[]> {
+  private readonly create: (id: string) => SyncChannel<T>;
+  private readonly channels = new Map<string, SyncChannel<T>>();
+
+  /**
+   * Creates a new SyncChannelRegistry instance.
+   *
+   * @param param - Configuration object containing the channel factory.
+   */
+  constructor({ create }: SyncChannelRegistryParam<T>) {
+    this.create = create;
+  }
+
+  /**
+   * Returns the open channel for an id, creating it if needed.
+   *
+   * @param id - The channel id.
+   */
+  get(id: string): SyncChannel<T> {
+    const existing = this.channels.get(id);
+    if (existing && !existing.closed) {
+      return existing;
+    }
+
+    const channel = this.create(id);
+    this.channels.set(id, channel);
+    channel.onClose(() => {
+      if (this.channels.get(id) === channel) {
+        this.channels.delete(id);
+      }
+    });
+    return channel;
+  }
+
+  /**
+   * Returns whether an open channel exists for an id.
+   *
+   * @param id - The channel id.
+   */
+  has(id: string): boolean {
+    return this.channels.has(id);
+  }
+
+  /**
+   * Closes and removes the channel for an id, if any.
+   *
+   * @param id - The channel id.
+   */
+  close(id: string): void {
+    this.channels.get(id)?.close();
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import { coalesceOperations } from "./coalesce";
+import { applyOperations, PatchOperation } from "./splice";
+
+/**
+ * Helper function to coalesce a patch and check that the result has the same
+ * effect on the document.
+ */
+function expectCoalesced<T>(
+  document: T,
+  operations: PatchOperation[]
+): PatchOperation[] {
+  const coalesced = coalesceOperations(operations);
+  expect(applyOperations(structuredClone(document), coalesced)).toEqual(
+    applyOperations(structuredClone(document), operations)
+  );
+  return coalesced;
+}
+
+describe("coalesceOperations", () => {
+  test("should keep only the last of successive replaces", () => {
+    const coalesced = expectCoalesced({ title: "a", count: 0 }, [
+      { op: "replace", path: "/title", value: "b" },
+      { op: "replace", path: "/count", value: 1 },
+      { op: "replace", path: "/title", value: "c" },
+    ]);
+
+    expect(coalesced).toEqual([
+      { op: "replace", path: "/title", value: "c" },
+      { op: "replace", path: "/count", value: 1 },
+    ]);
+  });
+
+  test("should drop an array element that is added and then removed", () => {
+    const coalesced = expectCoalesced({ items: ["a"] }, [
+      { op: "add", path: "/items/1", value: "b" },
+      { op: "remove", path: "/items/1" },
+    ]);
+
+    expect(coalesced).toEqual([]);
+  });
+
+  test("should fold a replace into the add before it", () => {
+    const coalesced = expectCoalesced({ items: [{ count: 0 }] }, [
+      { op: "add", path: "/items/1", value: { count: 1 } },
+      { op: "replace", path: "/items/1", value: { count: 2 } },
+    ]);
+
+    expect(coalesced).toEqual([
+      { op: "add", path: "/items/1", value: { count: 2 } },
+    ]);
+  });
+
+  test("should turn a remove and an add at the same path into a replace", () => {
+    const coalesced = expectCoalesced({ items: ["a", "b"] }, [
+      { op: "remove", path: "/items/0" },
+      { op: "add", path: "/items/0", value: "c" },
+    ]);
+
+    expect(coalesced).toEqual([
+      { op: "replace", path: "/items/0", value: "c" },
+    ]);
+  });
+
+  test("should join splices that continue each other", () => {
+    const coalesced = expectCoalesced({ text: "I" }, [
+      { op: "splice", path: "/text", offset: 1, remove: 0, value: " am" },
+      { op: "splice", path: "/text", offset: 4, remove: 0, value: " a" },
+      { op: "splice", path: "/text", offset: 6, remove: 0, value: " bot" },
+    ]);
+
+    expect(coalesced).toEqual([
+      { op: "splice", path: "/text", offset: 1, remove: 0, value: " am a bot" },
+    ]);
+  });
+
+  test("should not combine operations across a change to the same array", () => {
+    const operations: PatchOperation[] = [
+      { op: "add", path: "/items/1", value: "b" },
+      { op: "add", path: "/items/0", value: "x" },
+      { op: "remove", path: "/items/1" },
+    ];
+
+    expect(expectCoalesced({ items: ["a"] }, operations)).toEqual(operations);
+  });
+
+  test("should drop changes inside a value that is later replaced", () => {
+    const coalesced = expectCoalesced({ item: { count: 0 }, title: "a" }, [
+      { op: "replace", path: "/item/count", value: 1 },
+      { op: "replace", path: "/title", value: "b" },
+      { op: "add", path: "/item/label", value: "x" },
+      { op: "replace", path: "/item", value: { count: 3 } },
+    ]);
+
+    expect(coalesced).toEqual([
+      { op: "replace", path: "/title", value: "b" },
+      { op: "replace", path: "/item", value: { count: 3 } },
+    ]);
+  });
+
+  test("should keep copies out of a value that is later removed", () => {
+    const operations: PatchOperation[] = [
+      { op: "copy", from: "/item/count", path: "/count" },
+      { op: "remove", path: "/item" },
+    ];
+
+    expect(expectCoalesced({ item: { count: 1 } }, operations)).toEqual(
+      operations
+    );
+  });
+});
@@ -0,0 +1,174 @@
+import { isArrayPosition, isPrefix, parsePath } from "./json-pointer";
+import { PatchOperation, SpliceOperation } from "./splice";
+
+/**
+ * Returns the paths an operation reads or writes.
+ */
+function pathsOf(operation: PatchOperation): string[][] {
+  const paths = [parsePath(operation.path)];
+  if (operation.op === "move" || operation.op === "copy") {
+    paths.push(parsePath(operation.from));
+  }
+  return paths;
+}
+
+/**
+ * Returns whether an operation at `a` may change what `b` refers to: one
+ * contains the other, or both are elements of the same array.
+ */
+function isRelated(a: string[], b: string[]): boolean {
+  if (isPrefix(a, b) || isPrefix(b, a)) {
+    return true;
+  }
+  const depth = a.length - 1;
+  return (
+    depth === b.length - 1 &&
+    isPrefix(a.slice(0, depth), b) &&
+    (isArrayPosition(a[depth]) || isArrayPosition(b[depth]))
+  );
+}
+
+/**
+ * Returns a splice equivalent to `first` followed by `second`, or null when
+ * `second` edits text outside of what `first` inserted.
+ */
+function mergeSplices(
+  first: SpliceOperation,
+  second: SpliceOperation
+): SpliceOperation | null {
+  const start = second.offset - first.offset;
+  const end = start + second.remove;
+  if (start < 0 || end > first.value.length) {
+    return null;
+  }
+  return {
+    ...first,
+    value: first.value.slice(0, start) + second.value + first.value.slice(end),
+  };
+}
+
+/**
+ * Returns the operations equivalent to `first` followed by `second`, where both
+ * target the same path, or null when they cannot be combined.
+ */
+function merge(
+  first: PatchOperation,
+  second: PatchOperation
+): PatchOperation[] | null {
+  const path = parsePath(first.path);
+  const isElement = isArrayPosition(path[path.length - 1]);
+
+  switch (second.op) {
+    case "replace":
+      // A replace supersedes earlier writes, but must keep an insert an insert
+      if (first.op === "add" || first.op === "replace") {
+        return [{ ...first, value: second.value }];
+      }
+      if (first.op === "splice") {
+        return [second];
+      }
+      return null;
+    case "remove":
+      if (first.op === "add" && isElement) {
+        // Inserting an element and removing it again cancels out
+        return [];
+      }
+      if (first.op === "replace" || first.op === "splice") {
+        return [second];
+      }
+      return null;
+    case "add":
+      if (first.op === "remove") {
+        // Removing a value and adding one at the same path replaces it
+        return [{ op: "replace", path: second.path, value: second.value }];
+      }
+      if ((first.op === "replace" || first.op === "add") && !isElement) {
+        return [{ ...first, value: second.value }];
+      }
+      return null;
+    case "splice":
+      if (
+        (first.op === "add" || first.op === "replace") &&
+        typeof first.value === "string"
+      ) {
+        const value =
+          first.value.slice(0, second.offset) +
+          second.value +
+          first.value.slice(second.offset + second.remove);
+        return second.offset + second.remove <= first.value.length
+          ? [{ ...first, value }]
+          : null;
+      }
+      if (first.op === "splice") {
+        const merged = mergeSplices(first, second);
+        return merged && [merged];
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Coalesces redundant operations in a patch: successive writes to the same
+ * path collapse into one (e.g. two replaces, or an add and a replace), an
+ * array element that is inserted and then removed disappears, changes inside a
+ * value that is later replaced or removed are dropped, and splices of the same
+ * string that continue each other are joined. Operations are only
+ * combined when nothing in between touches the same part of the document, so
+ * the result has the same effect as the input.
+ *
+ * @param operations - The operations to coalesce.
+ * @returns An equivalent patch with no more operations than the input.
+ */
+export function coalesceOperations(
+  operations: PatchOperation[]
+): PatchOperation[] {
+  const result: PatchOperation[] = [];
+
+  for (const operation of operations) {
+    const paths = pathsOf(operation);
+    const overwritten =
+      operation.op === "replace" || operation.op === "remove" ? paths[0] : null;
+    let merged: PatchOperation[] | null = null;
+    let i = result.length - 1;
+
+    // Find the latest earlier operation this one could be combined with,
+    // dropping earlier operations inside a value this one overwrites
+    for (; i >= 0; i--) {
+      const earlier = result[i];
+      if (
+        overwritten &&
+        earlier.op !== "test" &&
+        pathsOf(earlier).every(
+          (path) =>
+            path.length > overwritten.length && isPrefix(overwritten, path)
+        )
+      ) {
+        result.splice(i, 1);
+        continue;
+      }
+      if (
+        earlier.path === operation.path &&
+        earlier.op !== "move" &&
+        earlier.op !== "copy" &&
+        paths.length === 1
+      ) {
+        merged = merge(earlier, operation);
+        break;
+      }
+      const earlierPaths = pathsOf(earlier);
+      if (paths.some((a) => earlierPaths.some((b) => isRelated(a, b)))) {
+        break;
+      }
+    }
+
+    if (merged === null) {
+      result.push(operation);
+    } else {
+      result.splice(i, 1, ...merged);
+    }
+  }
+
+  return result;
+}
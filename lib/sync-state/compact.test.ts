@@ -0,0 +1,196 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import { compactPatches } from "./compact";
+import { JsonPatch } from "./json-patch";
+import { PatchOperation } from "./splice";
+
+const schema = z.record(z.string(), z.unknown());
+type Document = z.infer<typeof schema>;
+
+const patcher = new JsonPatch({ schema });
+
+/**
+ * Seeded pseudo-random number generator (mulberry32), so that failures can be
+ * reproduced from the seed.
+ */
+function createRandom(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    int: (max: number) => Math.floor(next() * max),
+    pick: <T>(items: T[]): T => items[Math.floor(next() * items.length)],
+  };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+const KEYS = ["a", "b", "c", "d"];
+
+/**
+ * Helper function to generate a random JSON value.
+ */
+function randomValue(random: Random, depth: number): unknown {
+  switch (random.int(depth > 0 ? 5 : 3)) {
+    case 0:
+      return random.int(100);
+    case 1:
+      return random.pick(["", "x", "hello", "hello world"]);
+    case 2:
+      return random.pick([true, null]);
+    case 3:
+      return Array.from({ length: random.int(4) }, () =>
+        randomValue(random, depth - 1)
+      );
+    default:
+      return Object.fromEntries(
+        KEYS.slice(0, random.int(4)).map((key) => [
+          key,
+          randomValue(random, depth - 1),
+        ])
+      );
+  }
+}
+
+/**
+ * Helper function to list the pointer of every value in a document.
+ */
+function pointers(value: unknown, path = ""): string[] {
+  if (typeof value !== "object" || value === null) {
+    return [path];
+  }
+  const children = Array.isArray(value)
+    ? value.map((item, i) => pointers(item, `${path}/${i}`))
+    : Object.entries(value).map(([key, item]) =>
+        pointers(item, `${path}/${key}`)
+      );
+  return [path, ...children.flat()];
+}
+
+/**
+ * Helper function to generate a random operation, which may not apply.
+ */
+function randomOperation(random: Random, document: Document): PatchOperation {
+  const paths = pointers(document);
+  const existing = random.pick(paths.slice(1));
+  const parent = random.pick(paths);
+  const target = `${parent}/${random.pick([...KEYS, "0", "1", "-"])}`;
+
+  switch (random.int(6)) {
+    case 0:
+      return { op: "add", path: target, value: randomValue(random, 2) };
+    case 1:
+      return { op: "remove", path: existing };
+    case 2:
+      return { op: "replace", path: existing, value: randomValue(random, 2) };
+    case 3:
+      return { op: "move", from: existing, path: target };
+    case 4:
+      return { op: "copy", from: existing, path: target };
+    default: {
+      const offset = random.int(6);
+      return {
+        op: "splice",
+        path: existing,
+        offset,
+        remove: random.int(3),
+        value: random.pick(["", "!", " there", "yo"]),
+      };
+    }
+  }
+}
+
+/**
+ * Helper function to generate random batches that apply in sequence to a
+ * document, returning them with the document they produce.
+ */
+function randomBatches(random: Random, base: Document) {
+  const batches: PatchOperation[][] = [];
+  let document = base;
+
+  for (let i = random.int(10) + 1; i > 0; i--) {
+    const batch: PatchOperation[] = [];
+    for (let j = random.int(4) + 1; j > 0; j--) {
+      // Keep drawing until the operation applies to the current document
+      for (let attempt = 0; attempt < 50; attempt++) {
+        const operation = randomOperation(random, document);
+        try {
+          document = patcher.apply({ original: document, patch: [operation] });
+          batch.push(operation);
+          break;
+        } catch {
+          // Try another operation
+        }
+      }
+    }
+    batches.push(batch);
+  }
+
+  return { batches, final: document };
+}
+
+describe("compactPatches", () => {
+  test("should squash successive appends into one splice", () => {
+    const text = "The quick brown fox jumps over the lazy dog";
+    const compacted = compactPatches({ text }, [
+      [{ op: "splice", path: "/text", offset: 43, remove: 0, value: " and" }],
+      [{ op: "splice", path: "/text", offset: 47, remove: 0, value: " cat" }],
+    ]);
+
+    expect(compacted).toEqual([
+      { op: "splice", path: "/text", offset: 43, remove: 0, value: " and cat" },
+    ]);
+  });
+
+  test("should diff the final state when that is smaller", () => {
+    const compacted = compactPatches({ items: [1, 2, 3] }, [
+      [{ op: "replace", path: "/items/0", value: 10 }],
+      [{ op: "replace", path: "/items/1", value: 20 }],
+      [{ op: "replace", path: "/items", value: [] }],
+    ]);
+
+    expect(compacted).toEqual([{ op: "replace", path: "/items", value: [] }]);
+  });
+
+  test("should return an empty patch when the batches cancel out", () => {
+    const compacted = compactPatches({ items: ["a"] }, [
+      [{ op: "add", path: "/items/0", value: "b" }],
+      [{ op: "move", from: "/items/0", path: "/items/1" }],
+      [{ op: "remove", path: "/items/1" }],
+    ]);
+
+    expect(compacted).toEqual([]);
+  });
+
+  test("should not modify the starting state", () => {
+    const base = { count: 1 };
+
+    compactPatches(base, [[{ op: "replace", path: "/count", value: 2 }]]);
+
+    expect(base).toEqual({ count: 1 });
+  });
+
+  test("should produce a patch equivalent to applying every batch", () => {
+    for (let seed = 1; seed <= 300; seed++) {
+      const random = createRandom(seed);
+      const base = randomValue(random, 3);
+      const original: Document =
+        typeof base === "object" && base !== null && !Array.isArray(base)
+          ? (base as Document)
+          : { a: base };
+      const { batches, final } = randomBatches(random, original);
+
+      const compacted = compactPatches(original, batches);
+      const result = patcher.apply({ original, patch: compacted });
+
+      expect({ seed, result }).toEqual({ seed, result: final });
+      expect(JSON.stringify(compacted).length).toBeLessThanOrEqual(
+        JSON.stringify(batches.flat()).length
+      );
+    }
+  });
+});
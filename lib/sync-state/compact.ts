@@ -0,0 +1,39 @@
+import { coalesceOperations } from "./coalesce";
+import { diffDocuments, DiffOptions } from "./diff";
+import { applyOperations, PatchOperation } from "./splice";
+
+/**
+ * Returns the size of a patch on the wire.
+ */
+function sizeOf(operations: PatchOperation[]): number {
+  return JSON.stringify(operations).length;
+}
+
+/**
+ * Squashes a sequence of patches into a single equivalent patch against the
+ * starting state, for example to store a long history or to catch up a client
+ * in one step. Two candidates are compared and the smaller one is returned:
+ * the concatenated operations with redundant ones coalesced, and a fresh diff
+ * between the starting and the final state.
+ *
+ * @param base - The state the first patch applies to. It is not modified.
+ * @param batches - The patches to squash, in the order they were applied.
+ * @param options - How to diff the final state, as for diffDocuments().
+ * @returns A patch that turns `base` into the same state as applying every batch.
+ * @throws {JsonPatchError} If the batches do not apply to `base`.
+ */
+export function compactPatches<T>(
+  base: T,
+  batches: PatchOperation[][],
+  options: DiffOptions = {}
+): PatchOperation[] {
+  const operations = batches.flat();
+  const final = applyOperations(
+    structuredClone(base),
+    structuredClone(operations)
+  );
+
+  const coalesced = coalesceOperations(operations);
+  const diffed = diffDocuments(base, final, options);
+  return sizeOf(diffed) < sizeOf(coalesced) ? diffed : coalesced;
+}
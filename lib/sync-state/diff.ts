@@ -0,0 +1,327 @@
+import { compare } from "fast-json-patch";
+import { formatPath, isContainer, parsePath } from "./json-pointer";
+import { diffText, PatchOperation } from "./splice";
+
+/**
+ * Declares which arrays hold items identified by a property rather than by
+ * position. Keys are JSON Pointers to the arrays, in which a `*` token matches
+ * any single token, and values name the identity property of the items. For
+ * example, `{ "/messages": "id" }`. Use `""` for a root array.
+ */
+export type ArrayKeys = Record<string, string>;
+
+/**
+ * Options for diffDocuments.
+ */
+export interface DiffOptions {
+  /** Arrays to diff by item identity instead of by position. */
+  arrayKeys?: ArrayKeys;
+  /** Emit splice operations for changed strings instead of replacing them. */
+  spliceStrings?: boolean;
+}
+
+/**
+ * An ArrayKeys entry with its pointer split into tokens.
+ */
+interface KeyPattern {
+  tokens: string[];
+  key: string;
+}
+
+/**
+ * DiffOptions prepared for walking the documents.
+ */
+interface DiffContext {
+  patterns: KeyPattern[];
+  spliceStrings: boolean;
+  operations: PatchOperation[];
+}
+
+/**
+ * Returns whether a pattern token matches a path token.
+ */
+function matchesToken(pattern: string, token: string): boolean {
+  return pattern === "*" || pattern === token;
+}
+
+/**
+ * Returns the identity property for the array at `path`, if one is declared.
+ */
+function keyFor(patterns: KeyPattern[], path: string[]): string | undefined {
+  return patterns.find(
+    ({ tokens }) =>
+      tokens.length === path.length &&
+      tokens.every((token, i) => matchesToken(token, path[i]))
+  )?.key;
+}
+
+/**
+ * Returns whether any declared array lies strictly inside the value at `path`.
+ */
+function hasKeyedDescendant(patterns: KeyPattern[], path: string[]): boolean {
+  return patterns.some(
+    ({ tokens }) =>
+      tokens.length > path.length &&
+      path.every((token, i) => matchesToken(tokens[i], token))
+  );
+}
+
+/**
+ * Returns the identity of every item, or null when an item has no usable
+ * identity or two items share one.
+ */
+function identities(items: unknown[], key: string): unknown[] | null {
+  const ids = items.map((item) =>
+    isContainer(item) ? (item as Record<string, unknown>)[key] : undefined
+  );
+  const valid = ids.every(
+    (id) => typeof id === "string" || typeof id === "number"
+  );
+  return valid && new Set(ids).size === ids.length ? ids : null;
+}
+
+/**
+ * Returns the positions in `sequence` that form its longest increasing
+ * subsequence.
+ */
+function longestIncreasing(sequence: number[]): Set<number> {
+  // tails[k] is the position of the smallest tail of an increasing run of length k + 1
+  const tails: number[] = [];
+  const previous: number[] = new Array(sequence.length).fill(-1);
+
+  sequence.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (sequence[tails[middle]] < value) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  });
+
+  const result = new Set<number>();
+  for (let i = tails[tails.length - 1] ?? -1; i !== -1; i = previous[i]) {
+    result.add(i);
+  }
+  return result;
+}
+
+/**
+ * Diffs two documents like `compare`, with two optional refinements: arrays
+ * declared in `arrayKeys` are treated as collections of items identified by a
+ * property, so removed, inserted or reordered items produce one remove, add or
+ * move each and items present in both are diffed in place; and with
+ * `spliceStrings`, strings that share a prefix or suffix produce a splice of
+ * the changed part instead of a replace.
+ *
+ * @param original - The original document.
+ * @param updated - The updated document.
+ * @param options - The arrays to diff by identity and whether to splice strings.
+ * @returns The operations turning `original` into `updated`.
+ */
+export function diffDocuments(
+  original: unknown,
+  updated: unknown,
+  { arrayKeys = {}, spliceStrings = false }: DiffOptions
+): PatchOperation[] {
+  const context: DiffContext = {
+    patterns: Object.entries(arrayKeys).map(([pointer, key]) => ({
+      tokens: parsePath(pointer),
+      key,
+    })),
+    spliceStrings,
+    operations: [],
+  };
+  diffValue(context, [], original, updated);
+  return context.operations;
+}
+
+/**
+ * Appends the operations turning `original` into `updated` at `path`.
+ */
+function diffValue(
+  context: DiffContext,
+  path: string[],
+  original: unknown,
+  updated: unknown
+): void {
+  const { patterns, spliceStrings, operations } = context;
+  if (original === updated) {
+    return;
+  }
+
+  if (
+    spliceStrings &&
+    typeof original === "string" &&
+    typeof updated === "string"
+  ) {
+    const splice = diffText(formatPath(path), original, updated);
+    if (splice) {
+      operations.push(splice);
+      return;
+    }
+  }
+
+  if (
+    !isContainer(original) ||
+    !isContainer(updated) ||
+    Array.isArray(original) !== Array.isArray(updated)
+  ) {
+    operations.push({
+      op: "replace",
+      path: formatPath(path),
+      value: structuredClone(updated),
+    });
+    return;
+  }
+
+  const key = Array.isArray(updated) ? keyFor(patterns, path) : undefined;
+  if (key !== undefined) {
+    const diffed = diffKeyedArray(
+      context,
+      path,
+      original as unknown[],
+      updated as unknown[],
+      key
+    );
+    if (diffed) {
+      return;
+    }
+  }
+
+  if (!spliceStrings && !hasKeyedDescendant(patterns, path)) {
+    // Nothing below needs special handling, so compare can diff the subtree
+    const prefix = formatPath(path);
+    compare(original, updated).forEach((operation) =>
+      operations.push({ ...operation, path: prefix + operation.path })
+    );
+    return;
+  }
+
+  diffMembers(
+    context,
+    path,
+    original as Record<string, unknown>,
+    updated as Record<string, unknown>
+  );
+}
+
+/**
+ * Diffs the members of two objects or arrays by key or index, in the same
+ * order as `compare`.
+ */
+function diffMembers(
+  context: DiffContext,
+  path: string[],
+  original: Record<string, unknown>,
+  updated: Record<string, unknown>
+): void {
+  const { operations } = context;
+  const originalKeys = Object.keys(original);
+  for (let i = originalKeys.length - 1; i >= 0; i--) {
+    const member = originalKeys[i];
+    if (Object.prototype.hasOwnProperty.call(updated, member)) {
+      diffValue(context, [...path, member], original[member], updated[member]);
+    } else {
+      operations.push({ op: "remove", path: formatPath([...path, member]) });
+    }
+  }
+
+  Object.keys(updated).forEach((member) => {
+    if (!Object.prototype.hasOwnProperty.call(original, member)) {
+      operations.push({
+        op: "add",
+        path: formatPath([...path, member]),
+        value: structuredClone(updated[member]),
+      });
+    }
+  });
+}
+
+/**
+ * Diffs two arrays by item identity. Returns false, without appending
+ * anything, when the items cannot be told apart by `key`.
+ */
+function diffKeyedArray(
+  context: DiffContext,
+  path: string[],
+  original: unknown[],
+  updated: unknown[],
+  key: string
+): boolean {
+  const originalIds = identities(original, key);
+  const updatedIds = identities(updated, key);
+  if (originalIds === null || updatedIds === null) {
+    return false;
+  }
+  const { operations } = context;
+  const pointer = (index: number) => formatPath([...path, String(index)]);
+
+  // Remove dropped items from the end so earlier indices stay valid
+  const remaining = new Set(updatedIds);
+  for (let i = originalIds.length - 1; i >= 0; i--) {
+    if (!remaining.has(originalIds[i])) {
+      operations.push({ op: "remove", path: pointer(i) });
+    }
+  }
+  const current = originalIds.filter((id) => remaining.has(id));
+
+  // Index of each item in `current`, updated for the items that shift when
+  // one is moved or added
+  const positions = new Map(current.map((id, i) => [id, i]));
+  const reindex = (start: number, end: number) => {
+    for (let i = start; i < end; i++) {
+      positions.set(current[i], i);
+    }
+  };
+
+  // Items in the longest run that is already in order stay where they are;
+  // every other surviving item is moved once
+  const kept = updatedIds.filter((id) => positions.has(id));
+  const stable = new Set(
+    [...longestIncreasing(kept.map((id) => positions.get(id)!))].map(
+      (i) => kept[i]
+    )
+  );
+
+  // Place each item directly after its predecessor in the updated order
+  updatedIds.forEach((id, i) => {
+    if (stable.has(id)) {
+      return;
+    }
+    const at = i === 0 ? 0 : positions.get(updatedIds[i - 1])! + 1;
+    const from = positions.get(id);
+    if (from === undefined) {
+      operations.push({
+        op: "add",
+        path: pointer(at),
+        value: structuredClone(updated[i]),
+      });
+      current.splice(at, 0, id);
+      reindex(at, current.length);
+      return;
+    }
+    const to = from < at ? at - 1 : at;
+    if (to !== from) {
+      operations.push({ op: "move", from: pointer(from), path: pointer(to) });
+      current.splice(from, 1);
+      current.splice(to, 0, id);
+      reindex(Math.min(from, to), Math.max(from, to) + 1);
+    }
+  });
+
+  // The array now matches the updated order, so diff surviving items in place
+  const originalIndex = new Map(originalIds.map((id, i) => [id, i]));
+  updatedIds.forEach((id, i) => {
+    const before = originalIndex.get(id);
+    if (before !== undefined) {
+      diffValue(context, [...path, String(i)], original[before], updated[i]);
+    }
+  });
+  return true;
+}
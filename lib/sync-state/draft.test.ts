@@ -0,0 +1,250 @@
+import { describe, expect, test } from "bun:test";
+import { draftMutation, draftOperations } from "./draft";
+import { applyOperations } from "./splice";
+
+interface Item {
+  id: number;
+  tags: string[];
+}
+
+interface Document {
+  title: string;
+  items: Item[];
+  meta: { count: number; note?: string };
+}
+
+/**
+ * Helper function to create a document with three items.
+ */
+function createDocument(): Document {
+  return {
+    title: "List",
+    items: [
+      { id: 1, tags: ["a"] },
+      { id: 2, tags: [] },
+      { id: 3, tags: ["c"] },
+    ],
+    meta: { count: 3 },
+  };
+}
+
+/**
+ * Helper function to run a recipe and check that the recorded operations
+ * produce the same document as the recipe.
+ */
+function testDraft(recipe: (draft: Document) => void) {
+  const document = createDocument();
+  const { result, operations } = draftOperations(document, recipe);
+
+  expect(document).toEqual(createDocument());
+  expect(
+    applyOperations(createDocument(), structuredClone(operations))
+  ).toEqual(result);
+  return { document, result, operations };
+}
+
+describe("draftOperations", () => {
+  test("should record replaces, adds and removes of object members", () => {
+    const { result, operations } = testDraft((draft) => {
+      draft.title = "Renamed";
+      draft.meta.note = "new";
+      delete draft.meta.note;
+      draft.meta.count = 4;
+    });
+
+    expect(result.title).toBe("Renamed");
+    expect(operations).toEqual([
+      { op: "replace", path: "/title", value: "Renamed" },
+      { op: "add", path: "/meta/note", value: "new" },
+      { op: "remove", path: "/meta/note" },
+      { op: "replace", path: "/meta/count", value: 4 },
+    ]);
+  });
+
+  test("should record array methods as single element operations", () => {
+    const { result, operations } = testDraft((draft) => {
+      draft.items.push({ id: 4, tags: [] });
+      draft.items.shift();
+      draft.items.splice(1, 1, { id: 5, tags: ["e"] });
+      draft.items[0].tags.unshift("z");
+      draft.items.pop();
+    });
+
+    expect(result.items.map((item) => item.id)).toEqual([2, 5]);
+    expect(operations).toEqual([
+      { op: "add", path: "/items/3", value: { id: 4, tags: [] } },
+      { op: "remove", path: "/items/0" },
+      { op: "remove", path: "/items/1" },
+      { op: "add", path: "/items/1", value: { id: 5, tags: ["e"] } },
+      { op: "add", path: "/items/0/tags/0", value: "z" },
+      { op: "remove", path: "/items/2" },
+    ]);
+  });
+
+  test("should follow elements that move when the array changes", () => {
+    const { operations } = testDraft((draft) => {
+      const last = draft.items[2];
+      draft.items.unshift({ id: 0, tags: [] });
+      last.tags.push("moved");
+    });
+
+    expect(operations.at(-1)).toEqual({
+      op: "add",
+      path: "/items/3/tags/1",
+      value: "moved",
+    });
+  });
+
+  test("should not record writes to removed values", () => {
+    const { operations } = testDraft((draft) => {
+      const [removed] = draft.items.splice(0, 1);
+      removed.tags.push("ignored");
+    });
+
+    expect(operations).toEqual([{ op: "remove", path: "/items/0" }]);
+  });
+
+  test("should record reordering methods as a replace of the array", () => {
+    const { result, operations } = testDraft((draft) => {
+      draft.items.reverse();
+      draft.items[0].tags.push("last");
+    });
+
+    expect(result.items.map((item) => item.id)).toEqual([3, 2, 1]);
+    expect(operations.map(({ op, path }) => [op, path])).toEqual([
+      ["replace", "/items"],
+      ["add", "/items/0/tags/1"],
+    ]);
+  });
+
+  test("should record shrinking an array by its length", () => {
+    const { operations } = testDraft((draft) => {
+      draft.items.length = 1;
+    });
+
+    expect(operations).toEqual([
+      { op: "remove", path: "/items/2" },
+      { op: "remove", path: "/items/1" },
+    ]);
+  });
+
+  test("should copy assigned values", () => {
+    const tags = ["x"];
+    const { result, operations } = testDraft((draft) => {
+      draft.items[1].tags = tags;
+      draft.items[0].tags = draft.items[1].tags;
+      draft.items[1].tags.push("y");
+      tags.push("changed");
+    });
+
+    expect(result.items[0].tags).toEqual(["x"]);
+    expect(result.items[1].tags).toEqual(["x", "y"]);
+    expect(operations[0]).toEqual({
+      op: "replace",
+      path: "/items/1/tags",
+      value: ["x"],
+    });
+  });
+
+  test("should share the branches the recipe does not change", () => {
+    const { document, result } = testDraft((draft) => {
+      draft.items[1].tags.push("b");
+      void draft.items[0].tags.length;
+    });
+
+    expect(result.items[0]).toBe(document.items[0]);
+    expect(result.meta).toBe(document.meta);
+    expect(result.items[1]).not.toBe(document.items[1]);
+  });
+
+  test("should return the document itself when nothing changed", () => {
+    const document = createDocument();
+
+    const { result, operations } = draftOperations(document, (draft) => {
+      void draft.items.map((item) => item.tags.length);
+    });
+
+    expect(result).toBe(document);
+    expect(operations).toEqual([]);
+  });
+
+  test("should behave like the document for reads", () => {
+    testDraft((draft) => {
+      expect(Array.isArray(draft.items)).toBe(true);
+      expect(Object.keys(draft.meta)).toEqual(["count"]);
+      expect(JSON.parse(JSON.stringify(draft))).toEqual(createDocument());
+      expect(draft.items.find((item) => item.id === 2)).toBe(draft.items[1]);
+    });
+  });
+
+  test("should reject holes in arrays", () => {
+    expect(() =>
+      draftOperations(createDocument(), (draft) => {
+        draft.items[5] = { id: 6, tags: [] };
+      })
+    ).toThrow(RangeError);
+  });
+
+  test("should revoke the draft once the recipe returns", () => {
+    let leaked: Document | undefined;
+
+    draftOperations(createDocument(), (draft) => {
+      leaked = draft;
+    });
+
+    expect(() => leaked!.title).toThrow(TypeError);
+  });
+});
+
+describe("draftMutation", () => {
+  test("should share the branches a mutator changing the draft left alone", () => {
+    const document = createDocument();
+
+    const result = draftMutation(document, (draft) => {
+      draft.items[1].tags.push("b");
+      return draft;
+    });
+
+    expect(document).toEqual(createDocument());
+    expect(result.items[1].tags).toEqual(["b"]);
+    expect(result.items[0]).toBe(document.items[0]);
+    expect(result.meta).toBe(document.meta);
+    expect(result).not.toBe(document);
+  });
+
+  test("should return the document when the mutator changes nothing", () => {
+    const document = createDocument();
+
+    expect(draftMutation(document, (draft) => draft)).toBe(document);
+  });
+
+  test("should resolve drafts in a new state built from the draft", () => {
+    const document = createDocument();
+
+    const result = draftMutation(document, (draft) => ({
+      ...draft,
+      items: [...draft.items, { id: 4, tags: [] }],
+    }));
+
+    expect(result).toEqual({
+      ...createDocument(),
+      items: [...createDocument().items, { id: 4, tags: [] }],
+    });
+    expect(result.items[0]).toBe(document.items[0]);
+    expect(result.meta).toBe(document.meta);
+  });
+
+  test("should resolve a draft that appears more than once", () => {
+    const document = createDocument();
+
+    const result = draftMutation(document, (draft) => {
+      draft.items[0].tags.push("b");
+      return { ...draft, items: [draft.items[0], draft.items[0]] };
+    });
+
+    expect(result.items).toEqual([
+      { id: 1, tags: ["a", "b"] },
+      { id: 1, tags: ["a", "b"] },
+    ]);
+  });
+});
@@ -0,0 +1,512 @@
+import { formatPath, isContainer, isIndex } from "./json-pointer";
+import { PatchOperation } from "./splice";
+
+/**
+ * The state of a single call to draftOperations(), shared by all of its drafts.
+ */
+interface DraftScope {
+  operations: PatchOperation[];
+  revokes: (() => void)[];
+}
+
+/**
+ * Bookkeeping for one draft object or array. Its proxy reads from `base` until
+ * the first write, which makes a shallow `copy` that later writes modify.
+ */
+interface DraftState {
+  scope: DraftScope;
+  base: object;
+  copy: Record<string, unknown> | null;
+  parent: DraftState | null;
+  /** Key in the parent, or the last known index for array elements. */
+  key: string;
+  proxy: object;
+  /** Whether the draft itself was written to, as opposed to its children. */
+  modified: boolean;
+}
+
+/**
+ * Result of recording the changes a recipe makes to a draft.
+ */
+export interface DraftResult<T> {
+  /** The new state, sharing every unchanged branch with the base. */
+  result: T;
+  /** The operations that turn the base into the result. */
+  operations: PatchOperation[];
+}
+
+const drafts = new WeakMap<object, DraftState>();
+
+/**
+ * Returns the current contents of a draft.
+ */
+function current(state: DraftState): Record<string, unknown> {
+  return (state.copy ?? state.base) as Record<string, unknown>;
+}
+
+/**
+ * Returns the current elements of a draft array.
+ */
+function elementsOf(state: DraftState): unknown[] {
+  return current(state) as unknown as unknown[];
+}
+
+/**
+ * Makes the shallow copy of a draft that writes go to, if it has none yet.
+ */
+function prepareCopy(state: DraftState): Record<string, unknown> {
+  state.copy ??= (
+    Array.isArray(state.base) ? [...state.base] : { ...state.base }
+  ) as Record<string, unknown>;
+  return state.copy;
+}
+
+/**
+ * Returns the current path of a draft, or null when it has been removed from
+ * the document. Array elements are looked up by identity, since inserts and
+ * removals before them change their index.
+ */
+function pathOf(state: DraftState): string[] | null {
+  if (state.parent === null) {
+    return [];
+  }
+  const path = pathOf(state.parent);
+  if (path === null) {
+    return null;
+  }
+  const container = current(state.parent);
+  if (container[state.key] !== state.proxy) {
+    if (!Array.isArray(container)) {
+      return null;
+    }
+    const index = container.indexOf(state.proxy);
+    if (index === -1) {
+      return null;
+    }
+    state.key = String(index);
+  }
+  return [...path, state.key];
+}
+
+/**
+ * Records an operation at a member of a draft. Writes to drafts that are no
+ * longer part of the document do not change it, so they are not recorded.
+ */
+function record(
+  state: DraftState,
+  member: string,
+  build: (path: string) => PatchOperation
+): void {
+  const path = pathOf(state);
+  if (path !== null) {
+    state.scope.operations.push(build(formatPath([...path, member])));
+  }
+}
+
+/**
+ * Returns a deep copy of a value with every draft replaced by its current
+ * contents, so that neither the document nor the recorded operations share
+ * objects the caller may still change.
+ */
+function plain(value: unknown): unknown {
+  const state = isContainer(value) ? drafts.get(value) : undefined;
+  const source = state ? current(state) : value;
+  if (!isContainer(source)) {
+    return source;
+  }
+  if (Array.isArray(source)) {
+    return source.map(plain);
+  }
+  return Object.fromEntries(
+    Object.entries(source).map(([key, member]) => [key, plain(member)])
+  );
+}
+
+/**
+ * Writes a value to a member of a draft and records the operation.
+ */
+function setMember(state: DraftState, prop: string, value: unknown): void {
+  const source = current(state);
+  const exists = Object.prototype.hasOwnProperty.call(source, prop);
+  if (exists && source[prop] === value) {
+    return;
+  }
+  if (value === undefined && !Array.isArray(source)) {
+    // JSON has no undefined, so assigning it removes the member
+    deleteMember(state, prop);
+    return;
+  }
+
+  const next = plain(value);
+  prepareCopy(state)[prop] = next;
+  state.modified = true;
+  record(state, prop, (path) =>
+    exists
+      ? { op: "replace", path, value: next }
+      : { op: "add", path, value: next }
+  );
+}
+
+/**
+ * Removes a member of a draft object and records the operation.
+ */
+function deleteMember(state: DraftState, prop: string): void {
+  if (!Object.prototype.hasOwnProperty.call(current(state), prop)) {
+    return;
+  }
+  delete prepareCopy(state)[prop];
+  state.modified = true;
+  record(state, prop, (path) => ({ op: "remove", path }));
+}
+
+/**
+ * Removes and inserts elements of a draft array, recording a remove for every
+ * removed element and an add for every inserted one.
+ */
+function spliceElements(
+  state: DraftState,
+  start: number,
+  deleteCount: number,
+  items: unknown[]
+): unknown[] {
+  const copy = prepareCopy(state) as unknown as unknown[];
+  const values = items.map(plain);
+  const removed = copy.splice(start, deleteCount, ...values);
+  state.modified ||= removed.length > 0 || values.length > 0;
+
+  removed.forEach(() =>
+    record(state, String(start), (path) => ({ op: "remove", path }))
+  );
+  values.forEach((value, i) =>
+    record(state, String(start + i), (path) => ({ op: "add", path, value }))
+  );
+  // Hand out removed values as drafts too, so writing to them cannot reach
+  // the document they came from
+  return removed.map((value) =>
+    isContainer(value) && !drafts.has(value)
+      ? createDraft(state.scope, value, state, "")
+      : value
+  );
+}
+
+/**
+ * Converts a relative array index argument the way Array.prototype methods do.
+ */
+function clampIndex(index: number | undefined, length: number): number {
+  const integer = Math.trunc(index ?? 0) || 0;
+  return integer < 0
+    ? Math.max(length + integer, 0)
+    : Math.min(integer, length);
+}
+
+/**
+ * Array methods that change the array, implemented on drafts so that they
+ * record the minimal operations.
+ */
+const arrayMethods: Record<
+  string,
+  (state: DraftState, ...args: unknown[]) => unknown
+> = {
+  push: (state, ...items) => {
+    const length = elementsOf(state).length;
+    spliceElements(state, length, 0, items);
+    return length + items.length;
+  },
+  pop: (state) => {
+    const length = elementsOf(state).length;
+    return length === 0
+      ? undefined
+      : spliceElements(state, length - 1, 1, [])[0];
+  },
+  shift: (state) =>
+    elementsOf(state).length === 0
+      ? undefined
+      : spliceElements(state, 0, 1, [])[0],
+  unshift: (state, ...items) => {
+    spliceElements(state, 0, 0, items);
+    return elementsOf(state).length;
+  },
+  splice: (state, ...args) => {
+    const length = elementsOf(state).length;
+    const start = clampIndex(args[0] as number | undefined, length);
+    const deleteCount =
+      args.length < 2
+        ? length - start
+        : Math.min(
+            Math.max(Math.trunc(Number(args[1])) || 0, 0),
+            length - start
+          );
+    return spliceElements(state, start, deleteCount, args.slice(2));
+  },
+};
+
+/**
+ * Array methods that may move any element. They are applied to the copy and
+ * recorded as a replace of the whole array.
+ */
+const reorderingMethods = new Set(["sort", "reverse", "fill", "copyWithin"]);
+
+/**
+ * Applies a reordering method to a draft array and records the new array.
+ */
+function reorder(state: DraftState, method: string, args: unknown[]): object {
+  const copy = prepareCopy(state) as unknown as unknown[];
+  const values = method === "fill" ? [plain(args[0]), ...args.slice(1)] : args;
+  (Array.prototype as unknown as Record<string, (...a: unknown[]) => unknown>)[
+    method
+  ].apply(copy, values);
+  state.modified = true;
+
+  const path = pathOf(state);
+  if (path !== null) {
+    state.scope.operations.push({
+      op: "replace",
+      path: formatPath(path),
+      value: plain(state.proxy),
+    });
+  }
+  return state.proxy;
+}
+
+/**
+ * Sets the length of a draft array. Shrinking records the removal of every
+ * dropped element; growing would leave holes, which JSON cannot represent.
+ */
+function setLength(state: DraftState, length: number): void {
+  const elements = elementsOf(state);
+  if (length > elements.length) {
+    throw new RangeError("Cannot grow a draft array by setting its length");
+  }
+  for (let i = elements.length - 1; i >= length; i--) {
+    spliceElements(state, i, 1, []);
+  }
+}
+
+const handler: ProxyHandler<object> = {
+  get(target, prop) {
+    const state = drafts.get(target)!;
+    const source = current(state);
+    if (typeof prop === "symbol") {
+      return Reflect.get(source, prop);
+    }
+    if (Array.isArray(source)) {
+      if (Object.prototype.hasOwnProperty.call(arrayMethods, prop)) {
+        return (...args: unknown[]) => arrayMethods[prop](state, ...args);
+      }
+      if (reorderingMethods.has(prop)) {
+        return (...args: unknown[]) => reorder(state, prop, args);
+      }
+    }
+    if (!Object.prototype.hasOwnProperty.call(source, prop)) {
+      return Reflect.get(source, prop);
+    }
+
+    const value = source[prop];
+    if (!isContainer(value) || drafts.has(value)) {
+      return value;
+    }
+    // Draft the child in place so later reads and writes go through it
+    const child = createDraft(state.scope, value, state, prop);
+    prepareCopy(state)[prop] = child;
+    return child;
+  },
+  set(target, prop, value) {
+    const state = drafts.get(target)!;
+    if (typeof prop === "symbol") {
+      return false;
+    }
+    const source = current(state);
+    if (!Array.isArray(source)) {
+      setMember(state, prop, value);
+      return true;
+    }
+    if (prop === "length") {
+      setLength(state, Number(value));
+      return true;
+    }
+    if (!isIndex(prop)) {
+      return false;
+    }
+    const index = Number(prop);
+    if (index > source.length) {
+      throw new RangeError("Cannot leave holes in a draft array");
+    }
+    if (index === source.length) {
+      spliceElements(state, index, 0, [value]);
+    } else {
+      setMember(state, prop, value);
+    }
+    return true;
+  },
+  deleteProperty(target, prop) {
+    const state = drafts.get(target)!;
+    if (typeof prop === "symbol" || Array.isArray(current(state))) {
+      // Deleting an array element would leave a hole; use splice() instead
+      return false;
+    }
+    deleteMember(state, prop);
+    return true;
+  },
+  has(target, prop) {
+    return prop in current(drafts.get(target)!);
+  },
+  ownKeys(target) {
+    return Reflect.ownKeys(current(drafts.get(target)!));
+  },
+  getOwnPropertyDescriptor(target, prop) {
+    const source = current(drafts.get(target)!);
+    const descriptor = Reflect.getOwnPropertyDescriptor(source, prop);
+    if (descriptor === undefined) {
+      return undefined;
+    }
+    // Report values through the proxy so nested drafts are returned
+    return {
+      ...descriptor,
+      value: this.get!(target, prop, target),
+      configurable: prop === "length" && Array.isArray(source) ? false : true,
+    };
+  },
+  getPrototypeOf(target) {
+    return Object.getPrototypeOf(current(drafts.get(target)!));
+  },
+  defineProperty() {
+    return false;
+  },
+  setPrototypeOf() {
+    return false;
+  },
+};
+
+/**
+ * Creates a draft of an object or array. The proxy target is an empty object
+ * or array, so that Array.isArray() works on drafts, and maps to the state.
+ */
+function createDraft(
+  scope: DraftScope,
+  base: object,
+  parent: DraftState | null,
+  key: string
+): object {
+  const target = Array.isArray(base) ? [] : {};
+  const { proxy, revoke } = Proxy.revocable(target, handler);
+  drafts.set(target, {
+    scope,
+    base,
+    copy: null,
+    parent,
+    key,
+    proxy,
+    modified: false,
+  });
+  drafts.set(proxy, drafts.get(target)!);
+  scope.revokes.push(revoke);
+  return proxy;
+}
+
+/**
+ * Replaces the drafts in a finished draft tree by their contents and returns
+ * the value, or the base itself when nothing in it changed.
+ */
+function finalize(state: DraftState): unknown {
+  const copy = state.copy;
+  if (copy === null) {
+    return state.base;
+  }
+
+  let changed = state.modified;
+  const base = state.base as Record<string, unknown>;
+  for (const key of Object.keys(copy)) {
+    const child = isContainer(copy[key]) ? drafts.get(copy[key]) : undefined;
+    if (child) {
+      copy[key] = finalize(child);
+      changed ||= copy[key] !== base[key];
+    }
+  }
+  return changed ? copy : state.base;
+}
+
+/**
+ * Runs a recipe against a draft of a document and records the JSON Patch
+ * operations for its changes as they happen, instead of diffing the whole
+ * document afterwards. The draft behaves like the document: properties can be
+ * assigned and deleted, and arrays changed with push(), pop(), shift(),
+ * unshift() and splice(), which record adds and removes of single elements.
+ * Methods that reorder an array (sort(), reverse(), fill(), copyWithin())
+ * record a replace of the whole array.
+ *
+ * Only the objects and arrays the recipe writes to are copied; the result
+ * shares every other branch with the document, which is not modified. Values
+ * assigned to the draft are copied, so changing them afterwards does not
+ * affect the result. The drafts are revoked once the recipe returns.
+ *
+ * @param document - The document to draft. It is not modified.
+ * @param recipe - A function that changes the draft in place.
+ * @returns The new document and the operations that produce it.
+ * @throws {RangeError} If the recipe leaves holes in an array.
+ */
+export function draftOperations<T extends object>(
+  document: T,
+  recipe: (draft: T) => void
+): DraftResult<T> {
+  const scope: DraftScope = { operations: [], revokes: [] };
+  const draft = createDraft(scope, document, null, "");
+
+  try {
+    recipe(draft as T);
+    return {
+      result: finalize(drafts.get(draft)!) as T,
+      operations: scope.operations,
+    };
+  } finally {
+    scope.revokes.forEach((revoke) => revoke());
+  }
+}
+
+/**
+ * Runs a mutator against a draft of a document and returns the state it
+ * produced, whether it changed the draft in place and returned it or built a
+ * new state out of it (e.g. `[...draft, item]`). Drafts in the returned value
+ * are replaced by their contents and containers the mutator created are
+ * copied, so the result shares every branch the mutator did not touch with
+ * the document, which is not modified. The drafts are revoked once the
+ * mutator returns.
+ *
+ * @param document - The document to draft. It is not modified.
+ * @param mutator - A function that receives a draft and returns the new state.
+ * @returns The new state.
+ * @throws {RangeError} If the mutator leaves holes in an array.
+ */
+export function draftMutation<T extends object>(
+  document: T,
+  mutator: (draft: T) => T
+): T {
+  const scope: DraftScope = { operations: [], revokes: [] };
+  const draft = createDraft(scope, document, null, "");
+  // A draft may appear more than once, and is only finalized the first time
+  const finalized = new Map<DraftState, unknown>();
+
+  const resolve = (value: unknown): unknown => {
+    if (!isContainer(value)) {
+      return value;
+    }
+    const state = drafts.get(value);
+    if (state) {
+      if (!finalized.has(state)) {
+        finalized.set(state, finalize(state));
+      }
+      return finalized.get(state);
+    }
+    if (Array.isArray(value)) {
+      return value.map(resolve);
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, member]) => [key, resolve(member)])
+    );
+  };
+
+  try {
+    return resolve(mutator(draft as T)) as T;
+  } finally {
+    scope.revokes.forEach((revoke) => revoke());
+  }
+}
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { ZOperation } from "./json-patch";
+import { PatchOperation } from "./splice";
+
+/**
+ * A batch of JSON Patch operations tagged with its position in the stream.
+ * `baseVersion` is the state version the operations apply to and `version` is
+ * the state version after they have been applied. `mutationId` identifies the
+ * client mutation the operations came from, if any.
+ */
+export interface PatchEnvelope {
+  version: number;
+  baseVersion: number;
+  operations: PatchOperation[];
+  mutationId?: string;
+}
+
+/**
+ * A full copy of the state at a given version. `epoch` identifies the history
+ * the version belongs to, if the state has one.
+ */
+export interface SyncSnapshot<T> {
+  version: number;
+  state: T;
+  epoch?: string;
+}
+
+/**
+ * A message on a SyncState stream: either a full snapshot that replaces the
+ * receiver's state, or a patch envelope that is applied on top of it.
+ */
+export type SyncMessage<T> =
+  | { type: "snapshot"; snapshot: SyncSnapshot<T> }
+  | { type: "patch"; envelope: PatchEnvelope };
+
+/**
+ * Schema for validating a patch envelope, e.g. as the output of a procedure.
+ */
+export const PatchEnvelopeSchema = z.object({
+  version: z.number().int().nonnegative(),
+  baseVersion: z.number().int().nonnegative(),
+  operations: ZOperation,
+  mutationId: z.string().optional(),
+});
+
+/**
+ * Schema for validating a SyncMessage whose state is only known to be an
+ * object or array, e.g. because it is in a schema version negotiated at
+ * runtime. Validate the state against its own schema when receiving it.
+ */
+export const SyncMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("snapshot"),
+    snapshot: z.object({
+      version: z.number().int().nonnegative(),
+      state: z.custom<object>(
+        (state) => typeof state === "object" && state !== null,
+        { message: "Expected an object or array" }
+      ),
+      epoch: z.string().optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal("patch"),
+    envelope: PatchEnvelopeSchema,
+  }),
+]);
@@ -0,0 +1,72 @@
+/**
+ * Parameters for constructing a SyncStateGapError.
+ */
+interface SyncStateGapErrorParam {
+  expectedBaseVersion: number;
+  receivedBaseVersion: number;
+}
+
+/**
+ * Thrown when a SyncState receives a patch envelope that cannot be applied
+ * because one or more earlier envelopes are missing from the stream.
+ */
+export class SyncStateGapError extends Error {
+  readonly expectedBaseVersion: number;
+  readonly receivedBaseVersion: number;
+
+  constructor({
+    expectedBaseVersion,
+    receivedBaseVersion,
+  }: SyncStateGapErrorParam) {
+    super(
+      `Missing patches: expected base version ${expectedBaseVersion}, received ${receivedBaseVersion}`
+    );
+    this.name = "SyncStateGapError";
+    this.expectedBaseVersion = expectedBaseVersion;
+    this.receivedBaseVersion = receivedBaseVersion;
+  }
+}
+
+/**
+ * Reported when an optimistic mutation is rolled back because a concurrent
+ * change from the server removed or replaced the values it targeted.
+ */
+export class SyncStateConflictError extends Error {
+  readonly mutationId: string;
+
+  constructor(mutationId: string) {
+    super(`Mutation ${mutationId} conflicts with a change from the server`);
+    this.name = "SyncStateConflictError";
+    this.mutationId = mutationId;
+  }
+}
+
+/**
+ * Parameters for constructing a SchemaVersionError.
+ */
+interface SchemaVersionErrorParam {
+  name: string;
+  offered: number[];
+  supported: number[];
+  reason?: string;
+}
+
+/**
+ * Thrown when a stream cannot be served in a schema version both sides
+ * support, e.g. when a client built against an old schema connects after the
+ * server dropped that version.
+ */
+export class SchemaVersionError extends Error {
+  readonly offered: number[];
+  readonly supported: number[];
+
+  constructor({ name, offered, supported, reason }: SchemaVersionErrorParam) {
+    super(
+      `Cannot use schema ${name} version ${offered.join(", ")} (supported: ${supported.join(", ")})` +
+        (reason ? `: ${reason}` : "")
+    );
+    this.name = "SchemaVersionError";
+    this.offered = offered;
+    this.supported = supported;
+  }
+}
@@ -0,0 +1,101 @@
+import { isContainer, parsePath } from "./json-pointer";
+import { applyPatchOperation, PatchOperation } from "./splice";
+
+/**
+ * Returns a shallow copy of an object or array.
+ */
+function shallowCopy(value: object): Record<string, unknown> {
+  return (Array.isArray(value) ? [...value] : { ...value }) as Record<
+    string,
+    unknown
+  >;
+}
+
+/**
+ * Copies the containers from the root down to the parent of `path` that were
+ * not created by this apply yet, so that writing below them leaves the original
+ * document untouched. Copies are recorded in `owned` and modified in place by
+ * later operations. Stops where the path does not resolve; the operation then
+ * fails with the same error as on the original document.
+ */
+function copyPath(root: unknown, path: string[], owned: Set<object>): unknown {
+  if (!isContainer(root) || path.length === 0) {
+    return root;
+  }
+
+  let copy = root;
+  if (!owned.has(copy)) {
+    copy = shallowCopy(copy);
+    owned.add(copy);
+  }
+
+  let parent = copy as Record<string, unknown>;
+  for (const token of path.slice(0, -1)) {
+    const child = parent[token];
+    // Only own members, so "__proto__" and friends are never copied into place
+    if (!Object.prototype.hasOwnProperty.call(parent, token)) {
+      break;
+    }
+    if (!isContainer(child)) {
+      break;
+    }
+    if (!owned.has(child)) {
+      parent[token] = shallowCopy(child);
+      owned.add(parent[token] as object);
+    }
+    parent = parent[token] as Record<string, unknown>;
+  }
+  return copy;
+}
+
+/**
+ * Callbacks run around each operation applied by applyImmutable.
+ */
+interface ApplyHooks<T> {
+  /**
+   * Called with the document before each operation is applied. Values the
+   * operation replaces or removes can be read here; the operation detaches
+   * them from the document rather than modifying them.
+   */
+  onApplying?: (document: T, operation: PatchOperation) => void;
+  /** Called with the document after each operation is applied. */
+  onApplied?: (document: T, operation: PatchOperation) => void;
+}
+
+/**
+ * Applies JSON Patch operations and splices without modifying the document.
+ * Only the objects and arrays along each operation's path are copied; every
+ * other branch of the result is shared with the original, so the cost depends
+ * on the size of the change rather than the size of the document. Values
+ * inserted by the patch are shared with it too.
+ *
+ * The result must be treated as immutable, since modifying a shared branch in
+ * place would also change the original document (and the patch).
+ *
+ * @param document - The document to apply the operations to. It is not modified.
+ * @param operations - The operations to apply. They are not modified.
+ * @param hooks - Called with the document before and after each operation.
+ * @returns The new document, or `document` itself for an empty patch.
+ * @throws {JsonPatchError} If an operation fails.
+ */
+export function applyImmutable<T>(
+  document: T,
+  operations: PatchOperation[],
+  { onApplying, onApplied }: ApplyHooks<T> = {}
+): T {
+  const owned = new Set<object>();
+
+  return operations.reduce((current, operation, index) => {
+    onApplying?.(current, operation);
+    let root: unknown = current;
+    if (operation.op !== "test") {
+      root = copyPath(root, parsePath(operation.path), owned);
+    }
+    if (operation.op === "move") {
+      root = copyPath(root, parsePath(operation.from), owned);
+    }
+    const applied = applyPatchOperation(root as T, operation, index);
+    onApplied?.(applied, operation);
+    return applied;
+  }, document);
+}
@@ -3,3 +3,53 @@
  * Provides methods to mutate state with automatic diff generation and to apply patches.
  */
 export { SyncState } from "./sync-state";
+export type { ApplyOperationsOptions, PendingMutation } from "./sync-state";
+export { transformOperations, transformPair } from "./transform";
+export { JsonPatch, OperationSchema, ZOperation } from "./json-patch";
+export type { JsonValue } from "./json-patch";
+export type { ArrayKeys, DiffOptions } from "./diff";
+export type { PatchOperation, SpliceOperation } from "./splice";
+export { PatchBuilder } from "./typed-operations";
+export type {
+  AddPointer,
+  JsonPointer,
+  RemovePointer,
+  TypedOperation,
+  ValueAt,
+} from "./typed-operations";
+export { SyncChannel, SyncChannelRegistry } from "./channel";
+export { PatchBatcher } from "./batcher";
+export type { PatchBatchOptions } from "./batcher";
+export { coalesceOperations } from "./coalesce";
+export { compactPatches } from "./compact";
+export { draftOperations } from "./draft";
+export type { DraftResult } from "./draft";
+export type {
+  ValidationMetrics,
+  ValidationOptions,
+  ValidationPolicy,
+} from "./validation-policy";
+export { shareStructure } from "./structural-sharing";
+export { SessionRecorder, SessionReplay } from "./session";
+export type { SessionEntry, SessionLog } from "./session";
+export { InMemorySyncTransport, PubSubSyncTransport } from "./transport";
+export type {
+  ForwardRejection,
+  PubSubClient,
+  SyncTransport,
+  TransportMessage,
+} from "./transport";
+export { PatchEnvelopeSchema, SyncMessageSchema } from "./envelope";
+export type { PatchEnvelope, SyncMessage, SyncSnapshot } from "./envelope";
+export { SchemaRegistry, SchemaTranslator } from "./schema-registry";
+export type {
+  SchemaHandshake,
+  SchemaMigration,
+  SchemaOffer,
+  SchemaVersion,
+} from "./schema-registry";
+export {
+  SchemaVersionError,
+  SyncStateConflictError,
+  SyncStateGapError,
+} from "./errors";
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import { applyImmutable } from "./immutable";
+import { invertOperations } from "./invert";
+import { PatchOperation } from "./splice";
+
+/**
+ * Helper function to create a document.
+ */
+function createDocument() {
+  return {
+    title: "Hello",
+    items: [{ id: 1 }, { id: 2 }, { id: 3 }],
+    meta: { tags: ["a"], note: "x" } as Record<string, unknown>,
+  };
+}
+
+/**
+ * Helper function to check that the inverse of a patch restores the document.
+ */
+function expectInvertible(operations: PatchOperation[]) {
+  const original = createDocument();
+  const patched = applyImmutable(original, operations);
+  const inverse = invertOperations(original, operations);
+
+  expect(applyImmutable(patched, inverse)).toEqual(createDocument());
+  expect(original).toEqual(createDocument());
+}
+
+describe("invertOperations", () => {
+  test("should invert adds, removes and replaces", () => {
+    expectInvertible([{ op: "add", path: "/items/1", value: { id: 9 } }]);
+    expectInvertible([{ op: "add", path: "/items/-", value: { id: 9 } }]);
+    expectInvertible([{ op: "add", path: "/meta/new", value: 1 }]);
+    expectInvertible([{ op: "add", path: "/meta/note", value: "y" }]);
+    expectInvertible([{ op: "remove", path: "/items/0" }]);
+    expectInvertible([{ op: "remove", path: "/meta/tags" }]);
+    expectInvertible([{ op: "replace", path: "/items/2/id", value: 7 }]);
+    expectInvertible([{ op: "replace", path: "", value: {} }]);
+  });
+
+  test("should invert moves and copies", () => {
+    expectInvertible([{ op: "move", from: "/items/0", path: "/items/2" }]);
+    expectInvertible([{ op: "move", from: "/items/0", path: "/items/-" }]);
+    expectInvertible([{ op: "move", from: "/items/1", path: "/meta/tags/-" }]);
+    expectInvertible([{ op: "move", from: "/meta/tags", path: "/meta/note" }]);
+    expectInvertible([{ op: "move", from: "/meta/tags/0", path: "/meta" }]);
+    expectInvertible([{ op: "copy", from: "/items/0", path: "/meta/note" }]);
+    expectInvertible([{ op: "copy", from: "/title", path: "/items/0" }]);
+  });
+
+  test("should invert splices", () => {
+    expectInvertible([
+      { op: "splice", path: "/title", offset: 1, remove: 3, value: "ipp" },
+    ]);
+  });
+
+  test("should invert operations that build on each other", () => {
+    expectInvertible([
+      { op: "add", path: "/meta/list", value: [] },
+      { op: "add", path: "/meta/list/-", value: { id: 4 } },
+      { op: "replace", path: "/meta/list/0/id", value: 5 },
+      { op: "move", from: "/items/0", path: "/meta/list/0" },
+      { op: "add", path: "/meta/list/0/extra", value: true },
+      { op: "remove", path: "/items/0" },
+      { op: "test", path: "/title", value: "Hello" },
+      { op: "splice", path: "/title", offset: 5, remove: 0, value: "!" },
+    ]);
+  });
+
+  test("should only read the values at the operations' paths", () => {
+    const original = createDocument();
+
+    expect(
+      invertOperations(original, [
+        { op: "replace", path: "/items/1", value: { id: 5 } },
+      ])
+    ).toEqual([{ op: "replace", path: "/items/1", value: { id: 2 } }]);
+    expect(
+      invertOperations(original, [{ op: "remove", path: "/items/1" }])[0]
+    ).toEqual({ op: "add", path: "/items/1", value: original.items[1] });
+  });
+});
@@ -0,0 +1,147 @@
+import { applyImmutable } from "./immutable";
+import {
+  formatPath,
+  isContainer,
+  isPrefix,
+  parsePath,
+  valueAt,
+} from "./json-pointer";
+import { PatchOperation } from "./splice";
+
+/**
+ * Returns the path a value inserted at `path` ends up at, resolving "-" to the
+ * index after the last element of the array. A move out of the same array
+ * shortens it before the value is inserted.
+ */
+function insertedAt(document: unknown, path: string[], from?: string[]) {
+  if (path[path.length - 1] !== "-") {
+    return path;
+  }
+  const parent = path.slice(0, -1);
+  let length = (valueAt(document, parent) as unknown[]).length;
+  if (from && from.length === path.length && isPrefix(parent, from)) {
+    length--;
+  }
+  return [...parent, String(length)];
+}
+
+/**
+ * Returns whether inserting at a path overwrites an existing object member,
+ * rather than adding a member or inserting an array element.
+ */
+function overwrites(document: unknown, path: string[]): boolean {
+  const parent = valueAt(document, path.slice(0, -1));
+  return (
+    isContainer(parent) &&
+    !Array.isArray(parent) &&
+    Object.prototype.hasOwnProperty.call(parent, path[path.length - 1])
+  );
+}
+
+/**
+ * Returns the operations that undo an operation, from the document it is
+ * about to be applied to. Only the values at the operation's paths are read.
+ */
+function invertOperation(
+  document: unknown,
+  operation: PatchOperation
+): PatchOperation[] {
+  const path = parsePath(operation.path);
+  switch (operation.op) {
+    case "splice": {
+      const text = valueAt(document, path) as string;
+      const end = operation.offset + operation.remove;
+      return [
+        {
+          op: "splice",
+          path: operation.path,
+          offset: operation.offset,
+          remove: operation.value.length,
+          value: text.slice(operation.offset, end),
+        },
+      ];
+    }
+    case "remove":
+      return [
+        { op: "add", path: operation.path, value: valueAt(document, path) },
+      ];
+    case "replace":
+      return [
+        { op: "replace", path: operation.path, value: valueAt(document, path) },
+      ];
+    case "add":
+    case "copy": {
+      if (path.length === 0) {
+        return [{ op: "replace", path: "", value: document }];
+      }
+      const target = insertedAt(document, path);
+      return overwrites(document, target)
+        ? [
+            {
+              op: "replace",
+              path: formatPath(target),
+              value: valueAt(document, target),
+            },
+          ]
+        : [{ op: "remove", path: formatPath(target) }];
+    }
+    case "move": {
+      if (operation.from === operation.path) {
+        return [];
+      }
+      const from = parsePath(operation.from);
+      const target = insertedAt(document, path, from);
+      if (isPrefix(target, from)) {
+        // The value moved up over the member that contained it
+        return [
+          {
+            op: "replace",
+            path: operation.path,
+            value: valueAt(document, target),
+          },
+        ];
+      }
+      const back: PatchOperation = {
+        op: "move",
+        from: formatPath(target),
+        path: operation.from,
+      };
+      return overwrites(document, target)
+        ? [
+            back,
+            {
+              op: "add",
+              path: formatPath(target),
+              value: valueAt(document, target),
+            },
+          ]
+        : [back];
+    }
+    default:
+      // Tests change nothing
+      return [];
+  }
+}
+
+/**
+ * Returns the operations that undo a patch applied to a document. Each
+ * operation is inverted from the values at its own paths just before it
+ * applies, so the cost depends on the size of the change rather than the size
+ * of the document.
+ *
+ * @param document - The document before the patch was applied. It is not modified.
+ * @param operations - The applied operations.
+ * @returns Operations turning the patched document back into `document`.
+ * @throws {JsonPatchError} If the patch does not apply to the document.
+ */
+export function invertOperations<T>(
+  document: T,
+  operations: PatchOperation[]
+): PatchOperation[] {
+  const inverses: PatchOperation[][] = [];
+  applyImmutable(document, operations, {
+    onApplying: (current, operation) =>
+      inverses.push(invertOperation(current, operation)),
+  });
+  return inverses.reverse().flat();
+}
@@ -1,7 +1,8 @@
 import { describe, expect, test } from "bun:test";
 import { z, ZodSchema } from "zod";
-import { Operation } from "fast-json-patch";
+import { JsonPatchError, Operation } from "fast-json-patch";
 import { JsonPatch } from "./json-patch";
+import { PatchOperation } from "./splice";
 
 interface TestApplyParam<T extends object | object[]> {
   schema: ZodSchema<T>;
@@ -564,3 +565,314 @@ describe("JsonPatch.apply error handling", () => {
     }).toThrow(/path that does not exist/);
   });
 });
+
+describe("JsonPatch.apply with splice operations", () => {
+  const schema = z.object({ text: z.string(), count: z.number() });
+  const patcher = new JsonPatch({ schema });
+  const original = { text: "Hello world", count: 1 };
+
+  test("should append to a string", () => {
+    const result = patcher.apply({
+      original,
+      patch: [
+        { op: "splice", path: "/text", offset: 11, remove: 0, value: "!" },
+      ],
+    });
+
+    expect(result.text).toBe("Hello world!");
+  });
+
+  test("should replace part of a string", () => {
+    const result = patcher.apply({
+      original,
+      patch: [
+        { op: "splice", path: "/text", offset: 6, remove: 5, value: "there" },
+      ],
+    });
+
+    expect(result.text).toBe("Hello there");
+  });
+
+  test("should throw PatchError when the value is not a string", () => {
+    expect(() => {
+      patcher.apply({
+        original,
+        patch: [
+          { op: "splice", path: "/count", offset: 0, remove: 0, value: "x" },
+        ],
+      });
+    }).toThrow(/not a string/);
+  });
+
+  test("should throw PatchError when the range is out of bounds", () => {
+    expect(() => {
+      patcher.apply({
+        original,
+        patch: [
+          { op: "splice", path: "/text", offset: 10, remove: 5, value: "" },
+        ],
+      });
+    }).toThrow(/out of bounds/);
+  });
+
+  test("should accept splice operations in validatePatch", () => {
+    const patch: PatchOperation[] = [
+      { op: "splice", path: "/text", offset: 0, remove: 0, value: "x" },
+    ];
+
+    expect(JsonPatch.validatePatch(patch)).toEqual(patch);
+  });
+
+  test("should reject splice operations with negative offsets", () => {
+    expect(() =>
+      JsonPatch.validatePatch([
+        { op: "splice", path: "/text", offset: -1, remove: 0, value: "x" },
+      ])
+    ).toThrow();
+  });
+
+  test("should reject operations that are missing their value", () => {
+    expect(() =>
+      JsonPatch.validatePatch([{ op: "add", path: "/text" }])
+    ).toThrow(z.ZodError);
+    expect(() =>
+      JsonPatch.validatePatch([{ op: "replace", path: "/text", value: null }])
+    ).not.toThrow();
+  });
+
+  test("should reject values that are not JSON", () => {
+    [() => 1, new Date(), NaN, { nested: new Map() }].forEach((value) =>
+      expect(() =>
+        JsonPatch.validatePatch([{ op: "add", path: "/text", value }])
+      ).toThrow(z.ZodError)
+    );
+  });
+});
+
+describe("JsonPatch.apply structural sharing", () => {
+  const schema = z.object({
+    items: z.array(z.object({ id: z.number(), tags: z.array(z.string()) })),
+    meta: z.object({ title: z.string() }),
+  });
+  const patcher = new JsonPatch({ schema });
+
+  /**
+   * Helper function to create a document with two items.
+   */
+  function createDocument() {
+    return {
+      items: [
+        { id: 1, tags: ["a"] },
+        { id: 2, tags: ["b"] },
+      ],
+      meta: { title: "List" },
+    };
+  }
+
+  test("should share the branches a patch does not touch", () => {
+    const original = createDocument();
+
+    const result = patcher.apply({
+      original,
+      patch: [{ op: "add", path: "/items/1/tags/-", value: "c" }],
+    });
+
+    expect(result.items[1].tags).toEqual(["b", "c"]);
+    expect(result.items).not.toBe(original.items);
+    expect(result.items[0]).toBe(original.items[0]);
+    expect(result.meta).toBe(original.meta);
+    expect(original).toEqual(createDocument());
+  });
+
+  test("should not modify values inserted from the patch", () => {
+    const patch: PatchOperation[] = [
+      { op: "add", path: "/items/0", value: { id: 3, tags: [] } },
+      { op: "add", path: "/items/0/tags/0", value: "new" },
+      { op: "move", from: "/items/1", path: "/items/2" },
+    ];
+    const copy = structuredClone(patch);
+
+    const result = patcher.apply({ original: createDocument(), patch });
+
+    expect(result.items.map((item) => item.id)).toEqual([3, 2, 1]);
+    expect(result.items[0].tags).toEqual(["new"]);
+    expect(patch).toEqual(copy);
+  });
+
+  test("should leave the original untouched when an operation fails", () => {
+    const original = createDocument();
+
+    expect(() =>
+      patcher.apply({
+        original,
+        patch: [
+          { op: "remove", path: "/items/0" },
+          { op: "remove", path: "/missing/0" },
+        ],
+      })
+    ).toThrow(JsonPatchError);
+    expect(original).toEqual(createDocument());
+  });
+
+  test("should reject prototype modifications", () => {
+    expect(() =>
+      testApplyWithInvalidData({
+        schema: z.record(z.string(), z.unknown()),
+        original: {},
+        patch: [{ op: "add", path: "/__proto__/polluted", value: true }],
+      })
+    ).toThrow(/banned/);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe("JsonPatch.apply incremental validation", () => {
+  /**
+   * Helper function to create a schema that records the names it validates.
+   */
+  function createSchema() {
+    const checked: string[] = [];
+    const name = z.string().refine((value) => {
+      checked.push(value);
+      return value !== "invalid";
+    });
+    const schema = z.object({
+      items: z.array(z.object({ name, note: z.string().optional() })),
+      tags: z.record(z.string(), z.number()),
+    });
+    return { schema, checked };
+  }
+
+  /**
+   * Helper function to create a patcher whose schema records the names it
+   * validates, along with a document it has already validated.
+   */
+  function createPatcher() {
+    const { schema, checked } = createSchema();
+    const patcher = new JsonPatch({ schema });
+    const original = patcher.validate({
+      items: [{ name: "a" }, { name: "b", note: "x" }, { name: "c" }],
+      tags: { red: 1 },
+    });
+    checked.length = 0;
+    return { patcher, original, checked };
+  }
+
+  test("should only validate the values the patch changes", () => {
+    const { patcher, original, checked } = createPatcher();
+
+    const result = patcher.apply({
+      original,
+      patch: [
+        { op: "replace", path: "/items/1/name", value: "d" },
+        { op: "add", path: "/items/-", value: { name: "e" } },
+      ],
+    });
+
+    expect(result.items.map((item) => item.name)).toEqual(["a", "d", "c", "e"]);
+    expect(checked).toEqual(["d", "e"]);
+  });
+
+  test("should not validate results of earlier patches again", () => {
+    const { patcher, original, checked } = createPatcher();
+
+    const first = patcher.apply({
+      original,
+      patch: [{ op: "remove", path: "/items/0" }],
+    });
+    patcher.apply({
+      original: first,
+      patch: [{ op: "add", path: "/tags/blue", value: 2 }],
+    });
+
+    expect(checked).toEqual([]);
+  });
+
+  test("should report invalid values with their full path", () => {
+    const { patcher, original } = createPatcher();
+
+    try {
+      patcher.apply({
+        original,
+        patch: [{ op: "replace", path: "/items/2/name", value: "invalid" }],
+      });
+      throw new Error("Expected a validation error");
+    } catch (err) {
+      expect(err).toBeInstanceOf(z.ZodError);
+      expect((err as z.ZodError).issues[0].path).toEqual(["items", 2, "name"]);
+    }
+  });
+
+  test("should allow removing optional members and record entries only", () => {
+    const { patcher, original } = createPatcher();
+
+    const result = patcher.apply({
+      original,
+      patch: [
+        { op: "remove", path: "/items/1/note" },
+        { op: "remove", path: "/tags/red" },
+      ],
+    });
+
+    expect(result.items[1]).toEqual({ name: "b" });
+    expect(result.tags).toEqual({});
+    expect(() =>
+      patcher.apply({
+        original,
+        patch: [{ op: "remove", path: "/items/0/name" }],
+      })
+    ).toThrow(z.ZodError);
+  });
+
+  test("should not allow removing entries of exhaustive records", () => {
+    const schema = z.object({
+      sizes: z.record(z.enum(["small", "large"]), z.number()),
+      extras: z.partialRecord(z.enum(["small", "large"]), z.number()),
+    });
+    const patcher = new JsonPatch({ schema });
+    const original = patcher.validate({
+      sizes: { small: 1, large: 2 },
+      extras: { small: 1 },
+    });
+
+    expect(() =>
+      patcher.apply({
+        original,
+        patch: [{ op: "remove", path: "/sizes/small" }],
+      })
+    ).toThrow(z.ZodError);
+    expect(
+      patcher.apply({
+        original,
+        patch: [{ op: "remove", path: "/extras/small" }],
+      }).extras
+    ).toEqual({});
+  });
+
+  test("should validate the whole result for refined containers", () => {
+    const schema = z
+      .object({ items: z.array(z.number()) })
+      .refine(({ items }) => items.length <= 2, "Too many items");
+    const patcher = new JsonPatch({ schema });
+    const original = patcher.validate({ items: [1, 2] });
+
+    expect(() =>
+      patcher.apply({
+        original,
+        patch: [{ op: "add", path: "/items/-", value: 3 }],
+      })
+    ).toThrow(/Too many items/);
+  });
+
+  test("should let the schema strip unknown keys", () => {
+    const { schema } = createSchema();
+    const patcher = new JsonPatch({ schema });
+
+    const result = patcher.apply({
+      original: { items: [], tags: {} },
+      patch: [{ op: "add", path: "/extra", value: true }],
+    });
+
+    expect(result).toEqual({ items: [], tags: {} });
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, expect, test } from "bun:test";
 import { z, ZodSchema } from "zod";
-import { Operation } from "fast-json-patch";
 import { JsonPatch } from "./json-patch";
+import { PatchOperation } from "./splice";
 
 interface TestDiffParam<T extends object | object[]> {
   schema: ZodSchema<T>;
@@ -17,7 +17,7 @@ function testDiff<T extends object | object[]>({
   schema,
   original,
   updated,
-}: TestDiffParam<T>): Operation[] {
+}: TestDiffParam<T>): PatchOperation[] {
   const patcher = new JsonPatch({ schema });
   return patcher.diff({ original, updated });
 }
@@ -34,7 +34,7 @@ function testDiffWithInvalidData({
   schema: ZodSchema<object | object[]>;
   original: object | object[];
   updated: object | object[];
-}): Operation[] {
+}): PatchOperation[] {
   const patcher = new JsonPatch({ schema });
   return patcher.diff({
     original: original,
@@ -220,13 +220,48 @@ describe("JsonPatch.diff", () => {
     ).toThrow();
   });
 
+  test("should validate only the changes when the original is known", () => {
+    const checked: number[] = [];
+    const age = z.number().refine((value) => {
+      checked.push(value);
+      return value >= 0;
+    });
+    const patcher = new JsonPatch({
+      schema: z.array(z.object({ name: z.string(), age })),
+    });
+    const original = patcher.validate([
+      { name: "John", age: 30 },
+      { name: "Jane", age: 40 },
+    ]);
+    checked.length = 0;
+
+    patcher.diff({
+      original,
+      updated: [
+        { name: "John", age: 31 },
+        { name: "Jane", age: 40 },
+      ],
+    });
+
+    expect(checked).toEqual([31]);
+    expect(() =>
+      patcher.diff({
+        original,
+        updated: [
+          { name: "John", age: -1 },
+          { name: "Jane", age: 40 },
+        ],
+      })
+    ).toThrow(z.ZodError);
+  });
+
   // Additional diff test cases
   const additionalDiffTests: Array<{
     name: string;
     schema: ZodSchema<object | object[]>;
     original: object | object[];
     updated: object | object[];
-    expected: Operation[];
+    expected: PatchOperation[];
   }> = [
     {
       name: "should handle complex nested structures",
@@ -312,3 +347,198 @@ describe("JsonPatch.diff", () => {
     expect(patch.length).toBeGreaterThan(0);
   });
 });
+
+describe("JsonPatch.diff with arrayKeys", () => {
+  const messageSchema = z.object({ id: z.string(), text: z.string() });
+  const schema = z.object({
+    messages: z.array(messageSchema),
+    threads: z.array(z.object({ messages: z.array(messageSchema) })),
+  });
+  type State = z.infer<typeof schema>;
+
+  /**
+   * Helper function to create a state holding the given message ids.
+   */
+  function messages(...ids: string[]): State {
+    return {
+      messages: ids.map((id) => ({ id, text: `Message ${id}` })),
+      threads: [],
+    };
+  }
+
+  /**
+   * Helper function to diff with keyed messages and check that the patch
+   * turns the original into the updated state.
+   */
+  function keyedDiff(original: State, updated: State): PatchOperation[] {
+    const patcher = new JsonPatch({
+      schema,
+      arrayKeys: { "/messages": "id", "/threads/*/messages": "id" },
+    });
+    const patch = patcher.diff({ original, updated });
+    expect(patcher.apply({ original, patch })).toEqual(updated);
+    return patch;
+  }
+
+  test("should remove the first of many items with a single operation", () => {
+    const ids = Array.from({ length: 500 }, (_, i) => String(i));
+
+    const patch = keyedDiff(messages(...ids), messages(...ids.slice(1)));
+
+    expect(patch).toEqual([{ op: "remove", path: "/messages/0" }]);
+  });
+
+  test("should insert an item with a single add", () => {
+    const patch = keyedDiff(messages("a", "c"), messages("a", "b", "c"));
+
+    expect(patch).toEqual([
+      { op: "add", path: "/messages/1", value: { id: "b", text: "Message b" } },
+    ]);
+  });
+
+  test("should reorder items with a single move", () => {
+    const patch = keyedDiff(
+      messages("a", "b", "c", "d"),
+      messages("b", "c", "d", "a")
+    );
+
+    expect(patch).toEqual([
+      { op: "move", from: "/messages/0", path: "/messages/3" },
+    ]);
+  });
+
+  test("should diff changed items in place after reordering", () => {
+    const updated = messages("b", "a");
+    updated.messages[1].text = "Edited";
+
+    const patch = keyedDiff(messages("a", "b"), updated);
+
+    expect(patch).toEqual([
+      { op: "move", from: "/messages/1", path: "/messages/0" },
+      { op: "replace", path: "/messages/1/text", value: "Edited" },
+    ]);
+  });
+
+  test("should handle removes, inserts and moves together", () => {
+    keyedDiff(
+      messages("a", "b", "c", "d", "e", "f"),
+      messages("f", "x", "c", "a", "e", "y")
+    );
+  });
+
+  test("should match wildcard tokens in array pointers", () => {
+    const original: State = {
+      messages: [],
+      threads: [{ messages: messages("a", "b", "c").messages }],
+    };
+    const updated: State = {
+      messages: [],
+      threads: [{ messages: messages("b", "c").messages }],
+    };
+
+    const patch = keyedDiff(original, updated);
+
+    expect(patch).toEqual([{ op: "remove", path: "/threads/0/messages/0" }]);
+  });
+
+  test("should fall back to positional diffing for duplicate ids", () => {
+    const original = messages("a", "a", "b");
+    const updated = messages("a", "b");
+
+    const patch = keyedDiff(original, updated);
+
+    expect(patch).toEqual(
+      new JsonPatch({ schema }).diff({ original, updated })
+    );
+  });
+});
+
+describe("JsonPatch.diff with spliceStrings", () => {
+  const schema = z.object({
+    title: z.string(),
+    messages: z.array(z.object({ id: z.string(), text: z.string() })),
+  });
+  type State = z.infer<typeof schema>;
+
+  /**
+   * Helper function to diff with splices and check that the patch turns the
+   * original into the updated state.
+   */
+  function spliceDiff(original: State, updated: State): PatchOperation[] {
+    const patcher = new JsonPatch({
+      schema,
+      arrayKeys: { "/messages": "id" },
+      spliceStrings: true,
+    });
+    const patch = patcher.diff({ original, updated });
+    expect(patcher.apply({ original, patch })).toEqual(updated);
+    return patch;
+  }
+
+  test("should emit a splice for text appended to a string", () => {
+    const patch = spliceDiff(
+      { title: "", messages: [{ id: "a", text: "The quick brown" }] },
+      { title: "", messages: [{ id: "a", text: "The quick brown fox" }] }
+    );
+
+    expect(patch).toEqual([
+      {
+        op: "splice",
+        path: "/messages/0/text",
+        offset: 15,
+        remove: 0,
+        value: " fox",
+      },
+    ]);
+  });
+
+  test("should emit a splice for text changed in the middle", () => {
+    const patch = spliceDiff(
+      { title: "A red car", messages: [] },
+      { title: "A blue car", messages: [] }
+    );
+
+    expect(patch).toEqual([
+      { op: "splice", path: "/title", offset: 2, remove: 3, value: "blue" },
+    ]);
+  });
+
+  test("should replace strings with nothing in common", () => {
+    const patch = spliceDiff(
+      { title: "abc", messages: [] },
+      { title: "xyz", messages: [] }
+    );
+
+    expect(patch).toEqual([{ op: "replace", path: "/title", value: "xyz" }]);
+  });
+
+  test("should not split surrogate pairs", () => {
+    const patch = spliceDiff(
+      { title: "Hi \u{1F600}", messages: [] },
+      { title: "Hi \u{1F601}", messages: [] }
+    );
+
+    expect(patch).toEqual([
+      {
+        op: "splice",
+        path: "/title",
+        offset: 3,
+        remove: 2,
+        value: "\u{1F601}",
+      },
+    ]);
+  });
+
+  test("should replace strings when the option is off", () => {
+    const patcher = new JsonPatch({ schema });
+
+    const patch = patcher.diff({
+      original: { title: "Hello", messages: [] },
+      updated: { title: "Hello world", messages: [] },
+    });
+
+    expect(patch).toEqual([
+      { op: "replace", path: "/title", value: "Hello world" },
+    ]);
+  });
+});
@@ -1,16 +1,41 @@
-import { applyPatch, compare, Operation } from "fast-json-patch";
+import { compare } from "fast-json-patch";
 import { z, ZodType } from "zod";
+import { ArrayKeys, diffDocuments } from "./diff";
+import { applyImmutable } from "./immutable";
+import { PatchOperation } from "./splice";
+import { shareStructure } from "./structural-sharing";
+import { validateOperation } from "./validation";
 
 /**
- * Schema for validating a JSON Patch Operation according to RFC 6902.
- * Each operation must have an "op" field and a "path" field.
+ * A value that can be sent as JSON.
+ */
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+/**
+ * Schema for the value of an operation: any JSON value, which rejects missing
+ * values, functions, class instances such as Dates, and non-finite numbers.
+ * Typing it as JSON also keeps the value required in types inferred from
+ * serialized operations (e.g. tRPC outputs) rather than optional, as
+ * `unknown` values are.
+ */
+const JsonValueSchema: ZodType<JsonValue> = z.json();
+
+/**
+ * Schema for validating a JSON Patch Operation according to RFC 6902, or a
+ * string splice. Each operation must have an "op" field and a "path" field.
  * Depending on the operation type, additional fields may be required.
  */
-const OperationSchema = z.discriminatedUnion("op", [
+export const OperationSchema = z.discriminatedUnion("op", [
   z.object({
     op: z.literal("add"),
     path: z.string(),
-    value: z.unknown(),
+    value: JsonValueSchema,
   }),
   z.object({
     op: z.literal("remove"),
@@ -19,7 +44,7 @@ const OperationSchema = z.discriminatedUnion("op", [
   z.object({
     op: z.literal("replace"),
     path: z.string(),
-    value: z.unknown(),
+    value: JsonValueSchema,
   }),
   z.object({
     op: z.literal("move"),
@@ -34,21 +59,38 @@ const OperationSchema = z.discriminatedUnion("op", [
   z.object({
     op: z.literal("test"),
     path: z.string(),
-    value: z.unknown(),
+    value: JsonValueSchema,
+  }),
+  z.object({
+    op: z.literal("splice"),
+    path: z.string(),
+    offset: z.number().int().nonnegative(),
+    remove: z.number().int().nonnegative(),
+    value: z.string(),
   }),
 ]);
 
 /**
  * Schema for validating an array of JSON Patch operations.
  */
-const ZOperation = z.array(OperationSchema);
-type ZOperation = z.infer<typeof ZOperation>;
+export const ZOperation = z.array(OperationSchema);
+export type ZOperation = z.infer<typeof ZOperation>;
 
 /**
  * Parameters for constructing a JsonPatch instance.
  */
 interface JsonPatchParam<T extends object | object[]> {
   schema: ZodType<T>;
+  /**
+   * Arrays whose items are identified by a property, so that diff() emits
+   * add, remove and move operations for them instead of positional replaces.
+   */
+  arrayKeys?: ArrayKeys;
+  /**
+   * Make diff() emit splice operations for strings that share a prefix or
+   * suffix, instead of replacing the whole string.
+   */
+  spliceStrings?: boolean;
 }
 
 /**
@@ -57,6 +99,8 @@ interface JsonPatchParam<T extends object | object[]> {
 interface DiffParam<T extends object | object[]> {
   original: T;
   updated: T;
+  /** Whether to validate the objects against the schema. Defaults to true. */
+  validate?: boolean;
 }
 
 /**
@@ -64,7 +108,9 @@ interface DiffParam<T extends object | object[]> {
  */
 interface ApplyParam<T extends object | object[]> {
   original: T;
-  patch: Operation[];
+  patch: PatchOperation[];
+  /** Whether to validate the objects against the schema. Defaults to true. */
+  validate?: boolean;
 }
 
 /**
@@ -75,76 +121,141 @@ interface ApplyParam<T extends object | object[]> {
  */
 export class JsonPatch<T extends object | object[]> {
   private readonly schema: ZodType<T>;
+  private readonly arrayKeys: ArrayKeys | undefined;
+  private readonly spliceStrings: boolean;
+  /**
+   * Documents known to satisfy the schema: results of validate() and apply().
+   * Documents are never modified in place, so they stay valid.
+   */
+  private readonly validated = new WeakSet<object>();
 
   /**
    * Creates a new JsonPatch instance.
    *
    * @param param - Configuration object containing the Zod schema for validation.
    */
-  constructor({ schema }: JsonPatchParam<T>) {
+  constructor({ schema, arrayKeys, spliceStrings = false }: JsonPatchParam<T>) {
     this.schema = schema;
+    this.arrayKeys = arrayKeys;
+    this.spliceStrings = spliceStrings;
   }
 
   /**
    * Generates a JSON Patch (RFC 6902) representing the differences between two objects.
    * Both objects are validated against the schema before generating the patch.
+   * When the original object is already known to be valid, the updated object
+   * is validated through the generated operations instead (see apply()), so
+   * only the parts that changed are parsed.
+   * Arrays declared in `arrayKeys` are diffed by item identity, everything else by position.
+   * With `spliceStrings`, changed strings produce splice operations.
    *
    * @param param - Object containing the original and updated objects to compare.
    * @returns An array of JSON Patch operations describing the differences.
    * @throws {z.ZodError} If either object fails schema validation.
    */
-  diff({ original, updated }: DiffParam<T>): Operation[] {
-    // Validate both objects against the schema
-    this.schema.parse(original);
-    this.schema.parse(updated);
+  diff({ original, updated, validate = true }: DiffParam<T>): PatchOperation[] {
+    const isKnown = this.validated.has(original);
+    if (validate && !isKnown) {
+      // Validate both objects against the schema
+      this.validate(original);
+      this.schema.parse(updated);
+    }
 
-    // Generate and return the patch
+    // Generate the patch
     // Note: compare() never throws errors, it simply generates a diff
-    return compare(original, updated);
+    const operations =
+      this.arrayKeys || this.spliceStrings
+        ? diffDocuments(original, updated, {
+            arrayKeys: this.arrayKeys,
+            spliceStrings: this.spliceStrings,
+          })
+        : compare(original, updated);
+
+    if (validate && isKnown) {
+      this.apply({ original, patch: operations });
+    }
+    return operations;
   }
 
   /**
    * Applies a JSON Patch to an object and returns the result.
    * Validates the original object before applying the patch and the result after applying it.
-   * This method does not mutate the original object.
+   * This method does not mutate the original object: only the objects and
+   * arrays along each operation's path are copied, and the result shares every
+   * other branch with the original (and inserted values with the patch), so it
+   * must not be modified in place.
+   *
+   * Validation is incremental: an original returned by validate() or apply()
+   * is not validated again, and each operation only has the value it wrote
+   * checked against the part of the schema at its path. Containers along the
+   * path must not have checks, refinements or transforms of their own (which
+   * could depend on any of their members) and the path must be part of their
+   * shape; otherwise the whole result is validated. With `validate: false`
+   * nothing is validated, and the result is not known to be valid.
    *
    * @param param - Object containing the original object and the patch to apply.
    * @returns A new object with the patch applied.
    * @throws {z.ZodError} If the original or resulting object fails schema validation.
    * @throws {JsonPatchError} If the patch application fails (e.g., invalid path, test operation failure, out of bounds array index).
    */
-  apply({ original, patch }: ApplyParam<T>): T {
-    // Validate the original object against the schema
-    this.schema.parse(original);
+  apply({ original, patch, validate = true }: ApplyParam<T>): T {
+    if (!validate) {
+      // The result is not known to be valid, so the next validated patch
+      // checks all of it
+      return applyImmutable(original, patch);
+    }
 
-    // Create a deep copy to avoid mutating the original
-    const copy = structuredClone(original);
+    // Validate the original object against the schema, unless it is known
+    if (!this.validated.has(original)) {
+      this.validate(original);
+    }
 
-    // Apply the patch
-    // Parameters: document, patch, validateOperation, mutateDocument, banPrototypeModifications
-    // mutateDocument=true means we modify the copy in place
-    // Note: applyPatch will throw a JsonPatchError exception if any operation fails
-    // (e.g., invalid path, test operation failure, etc.)
-    const result = applyPatch(copy, patch, true, true, true);
+    // Apply the patch, copying only the nodes along each operation's path,
+    // with validation and prototype modifications banned, and check each
+    // change as it is made
+    // Note: applyImmutable will throw a JsonPatchError exception if any operation fails
+    // (e.g., invalid path, test operation failure, splice out of bounds, etc.)
+    let isValid = true;
+    const newDocument = applyImmutable(original, patch, {
+      onApplied: (document, operation) => {
+        isValid &&= validateOperation(this.schema, document, operation);
+      },
+    });
 
-    // Get the modified document from the result
-    const { newDocument } = result;
-
-    // Validate the result against the schema
-    const validated = this.schema.parse(newDocument);
+    if (!isValid) {
+      // Validate the whole result against the schema
+      return this.validate(newDocument);
+    }
+    this.validated.add(newDocument);
+    return newDocument;
+  }
 
+  /**
+   * Validates a whole object against the schema and remembers the result as
+   * valid, so that apply() and diff() do not validate it again.
+   *
+   * @param value - The object to validate.
+   * @returns The validated object. It is `value` itself unless the schema changed it (e.g. by stripping unknown keys).
+   * @throws {z.ZodError} If the object fails schema validation.
+   */
+  validate(value: unknown): T {
+    // Parsing returns a fresh copy, so keep the original value unless the
+    // schema changed something
+    const validated = shareStructure(value, this.schema.parse(value));
+    this.validated.add(validated);
     return validated;
   }
 
   /**
-   * Validates that a given value is a valid JSON Patch document according to RFC 6902.
+   * Validates that a given value is a valid JSON Patch document according to RFC 6902,
+   * optionally containing splice operations.
    * This is a static method that doesn't depend on the schema of the JsonPatch instance.
    *
    * @param patch - The value to validate as a JSON Patch document.
    * @returns The validated patch if it's valid.
    * @throws {z.ZodError} If the patch is not valid according to RFC 6902.
    */
-  static validatePatch(patch: unknown): Operation[] {
+  static validatePatch(patch: unknown): PatchOperation[] {
     return ZOperation.parse(patch);
   }
 }
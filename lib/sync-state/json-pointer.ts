@@ -0,0 +1,73 @@
+/**
+ * Splits a JSON Pointer (RFC 6901) into unescaped tokens.
+ */
+export function parsePath(path: string): string[] {
+  if (path === "") {
+    return [];
+  }
+  return path
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Joins unescaped tokens into a JSON Pointer (RFC 6901).
+ */
+export function formatPath(tokens: string[]): string {
+  return tokens
+    .map((token) => "/" + token.replace(/~/g, "~0").replace(/\//g, "~1"))
+    .join("");
+}
+
+/**
+ * Returns whether every token of `prefix` matches the start of `path`.
+ */
+export function isPrefix(prefix: string[], path: string[]): boolean {
+  return (
+    prefix.length <= path.length &&
+    prefix.every((token, i) => token === path[i])
+  );
+}
+
+/**
+ * Returns whether a token is an array index. Numeric object keys cannot be
+ * told apart from indices without the document, so they count as indices too.
+ * The "-" token is not an index: it names the position after the last element,
+ * where add, move and copy append, rather than an element (see
+ * isArrayPosition).
+ */
+export function isIndex(token: string): boolean {
+  return /^(0|[1-9][0-9]*)$/.test(token);
+}
+
+/**
+ * Returns whether a token names a position in an array: an index, or "-" for
+ * the position after the last element. Inserts and removals at any of these
+ * positions shift the elements after them.
+ */
+export function isArrayPosition(token: string): boolean {
+  return token === "-" || isIndex(token);
+}
+
+/**
+ * Returns whether a value is an object or array, which a pointer can descend
+ * into.
+ */
+export function isContainer(value: unknown): value is object {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Returns the value at a parsed JSON Pointer, or undefined if it does not
+ * exist.
+ */
+export function valueAt(document: unknown, path: string[]): unknown {
+  return path.reduce<unknown>(
+    (value, token) =>
+      isContainer(value) && Object.prototype.hasOwnProperty.call(value, token)
+        ? (value as Record<string, unknown>)[token]
+        : undefined,
+    document
+  );
+}
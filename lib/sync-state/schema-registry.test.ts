@@ -0,0 +1,203 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import { SchemaVersionError } from "./errors";
+import { SchemaRegistry } from "./schema-registry";
+import { PatchOperation } from "./splice";
+
+type NoteV1 = { text: string }[];
+type NoteV2 = { title: string }[];
+type NoteV3 = { title: string; done: boolean }[];
+
+/**
+ * Helper function to create a registry with three versions. Version 2 renames
+ * a field and only migrates states; version 3 adds a field and also
+ * translates operations.
+ */
+function createRegistry() {
+  return new SchemaRegistry({
+    name: "notes",
+    versions: [
+      { version: 1, schema: z.array(z.object({ text: z.string() })) },
+      {
+        version: 2,
+        schema: z.array(z.object({ title: z.string() })),
+        migration: {
+          up: (state: NoteV1): NoteV2 =>
+            state.map(({ text }) => ({ title: text })),
+          down: (state: NoteV2): NoteV1 =>
+            state.map(({ title }) => ({ text: title })),
+        },
+      },
+      {
+        version: 3,
+        schema: z.array(z.object({ title: z.string(), done: z.boolean() })),
+        migration: {
+          up: (state: NoteV2): NoteV3 =>
+            state.map((note) => ({ ...note, done: false })),
+          down: (state: NoteV3): NoteV2 =>
+            state.map(({ title }) => ({ title })),
+          upOperations: (operations) => operations,
+          downOperations: (operations) =>
+            operations.filter((operation) => !operation.path.endsWith("/done")),
+        },
+      },
+    ],
+  });
+}
+
+describe("SchemaRegistry", () => {
+  test("should reject versions that are not consecutive", () => {
+    expect(
+      () =>
+        new SchemaRegistry({
+          name: "notes",
+          versions: [
+            { version: 1, schema: z.array(z.object({})) },
+            {
+              version: 3,
+              schema: z.array(z.object({})),
+              migration: { up: (state) => state, down: (state) => state },
+            },
+          ],
+        })
+    ).toThrow(/does not follow/);
+  });
+
+  test("should reject versions without a migration", () => {
+    expect(
+      () =>
+        new SchemaRegistry({
+          name: "notes",
+          versions: [
+            { version: 1, schema: z.array(z.object({})) },
+            { version: 2, schema: z.array(z.object({})) },
+          ],
+        })
+    ).toThrow(/has no migration/);
+  });
+
+  test("should negotiate the newest shared version", () => {
+    const registry = createRegistry();
+
+    expect(registry.negotiate({ name: "notes", versions: [2, 1] })).toBe(2);
+    expect(registry.negotiate({ name: "notes", versions: [4, 3] })).toBe(3);
+    expect(registry.negotiate()).toBe(3);
+    expect(registry.offer()).toEqual({ name: "notes", versions: [3, 2, 1] });
+  });
+
+  test("should throw when no version is shared", () => {
+    const registry = createRegistry();
+
+    expect(() => registry.negotiate({ name: "notes", versions: [5] })).toThrow(
+      SchemaVersionError
+    );
+    expect(() => registry.negotiate({ name: "todos", versions: [3] })).toThrow(
+      SchemaVersionError
+    );
+  });
+
+  test("should migrate states across several versions", () => {
+    const registry = createRegistry();
+
+    expect(registry.migrate([{ text: "a" }], 1, 3)).toEqual([
+      { title: "a", done: false },
+    ]);
+    expect(registry.migrate([{ title: "a", done: true }], 3, 1)).toEqual([
+      { text: "a" },
+    ]);
+  });
+
+  test("should translate operations only when every migration can", () => {
+    const registry = createRegistry();
+    const operations: PatchOperation[] = [
+      { op: "replace", path: "/0/done", value: true },
+      { op: "replace", path: "/0/title", value: "b" },
+    ];
+
+    expect(registry.translateOperations(operations, 3, 2)).toEqual([
+      { op: "replace", path: "/0/title", value: "b" },
+    ]);
+    expect(registry.translateOperations(operations, 3, 1)).toBeNull();
+    expect(registry.canTranslateOperations(2, 3)).toBe(true);
+    expect(registry.canTranslateOperations(1, 2)).toBe(false);
+  });
+});
+
+describe("SchemaTranslator", () => {
+  test("should pass messages through when the versions match", () => {
+    const translator = createRegistry().translator(3);
+    const message = {
+      type: "patch" as const,
+      envelope: { version: 1, baseVersion: 0, operations: [] },
+    };
+
+    expect(translator.translate(message)).toBe(message);
+  });
+
+  test("should translate patches with the migrations' translators", () => {
+    const translator = createRegistry().translator(3, 2);
+
+    const translated = translator.translate({
+      type: "patch",
+      envelope: {
+        version: 5,
+        baseVersion: 4,
+        operations: [{ op: "replace", path: "/0/done", value: true }],
+        mutationId: "m1",
+      },
+    });
+
+    expect(translated).toEqual({
+      type: "patch",
+      envelope: {
+        version: 5,
+        baseVersion: 4,
+        operations: [],
+        mutationId: "m1",
+      },
+    });
+  });
+
+  test("should translate patches by diffing migrated states", () => {
+    const translator = createRegistry().translator(1);
+
+    const snapshot = translator.translate({
+      type: "snapshot",
+      snapshot: { version: 1, state: [{ text: "a" }] },
+    });
+    const patch = translator.translate({
+      type: "patch",
+      envelope: {
+        version: 2,
+        baseVersion: 1,
+        operations: [{ op: "add", path: "/-", value: { text: "b" } }],
+      },
+    });
+
+    expect(snapshot).toEqual({
+      type: "snapshot",
+      snapshot: { version: 1, state: [{ title: "a", done: false }] },
+    });
+    expect(patch).toEqual({
+      type: "patch",
+      envelope: {
+        version: 2,
+        baseVersion: 1,
+        operations: [
+          { op: "add", path: "/1", value: { title: "b", done: false } },
+        ],
+      },
+    });
+  });
+
+  test("should throw for a patch that needs a snapshot first", () => {
+    const translator = createRegistry().translator(1);
+
+    expect(() =>
+      translator.translate({
+        type: "patch",
+        envelope: { version: 2, baseVersion: 1, operations: [] },
+      })
+    ).toThrow(SchemaVersionError);
+  });
+});
@@ -0,0 +1,361 @@
+import { ZodType } from "zod";
+import { diffDocuments } from "./diff";
+import { SyncMessage } from "./envelope";
+import { SchemaVersionError } from "./errors";
+import { applyImmutable } from "./immutable";
+import { PatchOperation } from "./splice";
+
+/**
+ * Converts states and operations between a schema version and the one before
+ * it. State migrations must return new objects rather than modify their input.
+ */
+export interface SchemaMigration {
+  /** Converts a state of the previous version into this version. */
+  up: (state: never) => unknown;
+  /** Converts a state of this version into the previous version. */
+  down: (state: never) => unknown;
+  /**
+   * Converts operations made against the previous version into this version,
+   * without looking at the state. Without it, patches are translated by
+   * migrating the states before and after them and diffing the results.
+   */
+  upOperations?: (operations: PatchOperation[]) => PatchOperation[];
+  /** Converts operations made against this version into the previous version. */
+  downOperations?: (operations: PatchOperation[]) => PatchOperation[];
+}
+
+/**
+ * A version of a schema in a SchemaRegistry.
+ */
+export interface SchemaVersion {
+  version: number;
+  schema: ZodType<object | object[]>;
+  /** Converts from the previous version. Required for every version but the first. */
+  migration?: SchemaMigration;
+}
+
+/**
+ * The schema versions a client can work with, sent when it subscribes.
+ */
+export interface SchemaOffer {
+  name: string;
+  versions: number[];
+}
+
+/**
+ * First message of a stream that negotiated a schema version: the version
+ * every following snapshot and patch is in.
+ */
+export interface SchemaHandshake {
+  type: "handshake";
+  name: string;
+  version: number;
+}
+
+/**
+ * Parameters for constructing a SchemaRegistry instance.
+ */
+interface SchemaRegistryParam<T> {
+  name: string;
+  /** The versions of the schema, oldest first and numbered consecutively. */
+  versions: [...SchemaVersion[], SchemaVersion & { schema: ZodType<T> }];
+}
+
+/**
+ * Keeps the versions of a named schema and the migrations between adjacent
+ * versions, so that a server and clients built against different versions
+ * can agree on one and translate snapshots and patches into it.
+ *
+ * @template T - The type of the latest version.
+ */
+export class SchemaRegistry<T extends object | object[]> {
+  readonly name: string;
+  private readonly versions: SchemaVersion[];
+
+  /**
+   * Creates a new SchemaRegistry instance.
+   *
+   * @param param - Configuration object containing the name and versions of the schema.
+   * @throws {Error} If the versions are not numbered consecutively or a migration is missing.
+   */
+  constructor({ name, versions }: SchemaRegistryParam<T>) {
+    versions.forEach((entry, i) => {
+      if (i > 0 && entry.version !== versions[i - 1].version + 1) {
+        throw new Error(
+          `Schema ${name} version ${entry.version} does not follow version ${versions[i - 1].version}`
+        );
+      }
+      if (i > 0 && !entry.migration) {
+        throw new Error(
+          `Schema ${name} version ${entry.version} has no migration`
+        );
+      }
+    });
+    this.name = name;
+    this.versions = versions;
+  }
+
+  /**
+   * Returns a registry as is, or wraps a schema in a registry with a single
+   * version, for states that do not need migrations yet.
+   *
+   * @param schema - A registry, or the only version of the schema.
+   * @param name - The name of the wrapped schema. Defaults to "state".
+   */
+  static from<T extends object | object[]>(
+    schema: SchemaRegistry<T> | ZodType<T>,
+    name = "state"
+  ): SchemaRegistry<T> {
+    return schema instanceof SchemaRegistry
+      ? schema
+      : new SchemaRegistry({ name, versions: [{ version: 1, schema }] });
+  }
+
+  /**
+   * Returns the latest version number.
+   */
+  get latest(): number {
+    return this.versions[this.versions.length - 1].version;
+  }
+
+  /**
+   * Returns the schema of the latest version.
+   */
+  get schema(): ZodType<T> {
+    return this.versions[this.versions.length - 1].schema as ZodType<T>;
+  }
+
+  /**
+   * Returns the schema of a version.
+   *
+   * @throws {SchemaVersionError} If the version is not registered.
+   */
+  schemaOf(version: number): ZodType<object | object[]> {
+    return this.entry(version).schema;
+  }
+
+  /**
+   * Returns the offer a client sends to subscribe: every registered version,
+   * latest first.
+   */
+  offer(): SchemaOffer {
+    return {
+      name: this.name,
+      versions: this.versions.map(({ version }) => version).reverse(),
+    };
+  }
+
+  /**
+   * Picks the newest version that both this registry and a client support.
+   *
+   * @param offer - The client's offer. Clients that send none get the latest version.
+   * @returns The version to stream in.
+   * @throws {SchemaVersionError} If the offer is for another schema or no version is shared.
+   */
+  negotiate(offer?: SchemaOffer): number {
+    if (offer === undefined) {
+      return this.latest;
+    }
+    const shared = offer.versions.filter((version) => this.has(version));
+    if (offer.name !== this.name || shared.length === 0) {
+      throw new SchemaVersionError({
+        name: this.name,
+        offered: offer.versions,
+        supported: this.offer().versions,
+      });
+    }
+    return Math.max(...shared);
+  }
+
+  /**
+   * Returns the handshake announcing a negotiated version.
+   */
+  handshake(version: number): SchemaHandshake {
+    return { type: "handshake", name: this.name, version };
+  }
+
+  /**
+   * Converts a state from one version into another, one migration at a time.
+   *
+   * @throws {SchemaVersionError} If either version is not registered.
+   */
+  migrate(state: unknown, from: number, to: number): unknown {
+    return this.steps(from, to).reduce(
+      (current, { migration, up }) =>
+        up ? migration.up(current as never) : migration.down(current as never),
+      state
+    );
+  }
+
+  /**
+   * Converts operations from one version into another without looking at the
+   * state, which is possible when every migration in between translates
+   * operations.
+   *
+   * @returns The converted operations, or null when a migration in between
+   *          only converts states.
+   * @throws {SchemaVersionError} If either version is not registered.
+   */
+  translateOperations(
+    operations: PatchOperation[],
+    from: number,
+    to: number
+  ): PatchOperation[] | null {
+    let current = operations;
+    for (const { migration, up } of this.steps(from, to)) {
+      const translate = up ? migration.upOperations : migration.downOperations;
+      if (!translate) {
+        return null;
+      }
+      current = translate(current);
+    }
+    return current;
+  }
+
+  /**
+   * Returns whether patches can be converted between two versions without
+   * knowing the state they apply to, so that a stream in one of them can be
+   * resumed without a snapshot.
+   */
+  canTranslateOperations(from: number, to: number): boolean {
+    return this.translateOperations([], from, to) !== null;
+  }
+
+  /**
+   * Creates a translator converting stream messages from a version into
+   * another, by default the latest.
+   */
+  translator(from: number): SchemaTranslator<T>;
+  translator(from: number, to: number): SchemaTranslator<object | object[]>;
+  translator(
+    from: number,
+    to = this.latest
+  ): SchemaTranslator<object | object[]> {
+    return new SchemaTranslator({ registry: this, from, to });
+  }
+
+  private has(version: number): boolean {
+    return this.versions.some((entry) => entry.version === version);
+  }
+
+  private entry(version: number): SchemaVersion {
+    const entry = this.versions.find((entry) => entry.version === version);
+    if (!entry) {
+      throw new SchemaVersionError({
+        name: this.name,
+        offered: [version],
+        supported: this.offer().versions,
+      });
+    }
+    return entry;
+  }
+
+  /**
+   * Returns the migrations leading from one version to another, each with the
+   * direction to run it in.
+   */
+  private steps(
+    from: number,
+    to: number
+  ): { migration: SchemaMigration; up: boolean }[] {
+    this.entry(from);
+    this.entry(to);
+    const steps = [];
+    for (let version = from; version < to; version++) {
+      steps.push({ migration: this.entry(version + 1).migration!, up: true });
+    }
+    for (let version = from; version > to; version--) {
+      steps.push({ migration: this.entry(version).migration!, up: false });
+    }
+    return steps;
+  }
+}
+
+/**
+ * Parameters for constructing a SchemaTranslator instance.
+ */
+interface SchemaTranslatorParam {
+  registry: SchemaRegistry<object | object[]>;
+  from: number;
+  to: number;
+}
+
+/**
+ * Converts the messages of a stream from one schema version into another.
+ * Snapshots are migrated; patches are translated by the migrations'
+ * operation translators when every migration in between has them, or else by
+ * diffing the migrated states before and after the patch, which requires the
+ * stream to start with a snapshot.
+ *
+ * @template T - The type of the version messages are converted into.
+ */
+export class SchemaTranslator<T> {
+  private readonly registry: SchemaRegistry<object | object[]>;
+  private readonly from: number;
+  private readonly to: number;
+  private readonly statefree: boolean;
+  /** The latest state in the source version and its migrated copy. */
+  private source: unknown = undefined;
+  private target: unknown = undefined;
+
+  /**
+   * Creates a new SchemaTranslator instance.
+   *
+   * @param param - Configuration object containing the registry and the versions to convert between.
+   * @throws {SchemaVersionError} If either version is not registered.
+   */
+  constructor({ registry, from, to }: SchemaTranslatorParam) {
+    this.registry = registry;
+    this.from = from;
+    this.to = to;
+    this.statefree = registry.canTranslateOperations(from, to);
+  }
+
+  /**
+   * Converts a message into the target version.
+   *
+   * @throws {SchemaVersionError} If a patch needs the state to be translated
+   *         and no snapshot came before it.
+   */
+  translate(message: SyncMessage<unknown>): SyncMessage<T> {
+    if (this.from === this.to) {
+      return message as SyncMessage<T>;
+    }
+
+    if (message.type === "snapshot") {
+      const { snapshot } = message;
+      if (!this.statefree) {
+        this.source = snapshot.state;
+      }
+      this.target = this.registry.migrate(snapshot.state, this.from, this.to);
+      return {
+        type: "snapshot",
+        snapshot: { ...snapshot, state: this.target as T },
+      };
+    }
+
+    const { envelope } = message;
+    if (this.statefree) {
+      const operations = this.registry.translateOperations(
+        envelope.operations,
+        this.from,
+        this.to
+      )!;
+      return { type: "patch", envelope: { ...envelope, operations } };
+    }
+    if (this.source === undefined) {
+      throw new SchemaVersionError({
+        name: this.registry.name,
+        offered: [this.to],
+        supported: [this.from],
+        reason: "a patch can only be translated after a snapshot",
+      });
+    }
+
+    this.source = applyImmutable(this.source, envelope.operations);
+    const target = this.registry.migrate(this.source, this.from, this.to);
+    const operations = diffDocuments(this.target, target, {});
+    this.target = target;
+    return { type: "patch", envelope: { ...envelope, operations } };
+  }
+}
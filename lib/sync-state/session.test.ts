@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import { SessionRecorder, SessionReplay } from "./session";
+import { SyncState } from "./sync-state";
+
+const schema = z.array(z.object({ count: z.number() }));
+type State = z.infer<typeof schema>;
+
+/**
+ * Helper function to create a recorder with a clock that ticks once per entry.
+ */
+function createRecorder(param: { maxEntries?: number } = {}) {
+  let time = 0;
+  return new SessionRecorder<State>({ ...param, now: () => ++time });
+}
+
+/**
+ * Helper function to record a server session that adds one item per step.
+ */
+function recordSession(recorder: SessionRecorder<State>, steps: number) {
+  const server = new SyncState({ schema, initialState: [], recorder });
+  for (let i = 1; i <= steps; i++) {
+    server.mutateAndDiff((state) => [...state, { count: i }]);
+  }
+  return server;
+}
+
+describe("SessionRecorder", () => {
+  test("should record the initial state and every envelope", () => {
+    const recorder = createRecorder();
+    const server = recordSession(recorder, 2);
+
+    const { entries } = recorder.export();
+
+    expect(entries).toHaveLength(3);
+    expect(entries[0]).toEqual({
+      type: "message",
+      timestamp: 1,
+      message: { type: "snapshot", snapshot: { version: 0, state: [] } },
+    });
+    expect(entries.slice(1).map((entry) => entry.timestamp)).toEqual([2, 3]);
+    expect(server.changesSince(0)).toBeNull();
+  });
+
+  test("should record the messages a client receives", () => {
+    const server = new SyncState({
+      schema,
+      initialState: [],
+      historyLimit: 10,
+    });
+    server.mutateAndDiff((state) => [...state, { count: 1 }]);
+    const recorder = createRecorder();
+    const client = new SyncState({ schema, initialState: [], recorder });
+
+    server.catchUp().forEach((message) => client.receive(message));
+    client.apply(server.mutateAndDiff((state) => [...state, { count: 2 }]));
+
+    const types = recorder
+      .export()
+      .entries.map((entry) => entry.type === "message" && entry.message.type);
+    expect(types).toEqual(["snapshot", "snapshot", "patch"]);
+  });
+
+  test("should fold old entries into the first snapshot", () => {
+    const recorder = createRecorder({ maxEntries: 3 });
+    const server = recordSession(recorder, 5);
+
+    const log = recorder.export();
+    const replay = new SessionReplay({ schema, log });
+    replay.seek(log.entries.length);
+
+    expect(log.entries).toHaveLength(3);
+    expect(log.entries[0]).toMatchObject({
+      message: { type: "snapshot", snapshot: { version: 3 } },
+    });
+    expect(replay.state).toEqual(server.state);
+  });
+});
+
+describe("SessionReplay", () => {
+  test("should reconstruct the state after every entry", () => {
+    const recorder = createRecorder();
+    recordSession(recorder, 3);
+    recorder.note("Stream error: boom");
+
+    // Replay from the serialized form, as after exporting from a browser
+    const log = JSON.parse(JSON.stringify(recorder.export()));
+    const replay = new SessionReplay<State>({ schema, log });
+    const states: unknown[] = [];
+    while (replay.step()) {
+      states.push(replay.state);
+    }
+
+    expect(states).toEqual([
+      [],
+      [{ count: 1 }],
+      [{ count: 1 }, { count: 2 }],
+      [{ count: 1 }, { count: 2 }, { count: 3 }],
+      [{ count: 1 }, { count: 2 }, { count: 3 }],
+    ]);
+    expect(replay.version).toBe(3);
+  });
+
+  test("should seek backwards and forwards", () => {
+    const recorder = createRecorder();
+    recordSession(recorder, 3);
+    const replay = new SessionReplay({ schema, log: recorder.export() });
+
+    replay.seek(4);
+    replay.seek(2);
+
+    expect(replay.position).toBe(2);
+    expect(replay.state).toEqual([{ count: 1 }]);
+    expect(replay.version).toBe(1);
+  });
+
+  test("should have no state before the first snapshot", () => {
+    const replay = new SessionReplay({ schema, log: { entries: [] } });
+
+    expect(replay.step()).toBeNull();
+    expect(replay.state).toBeNull();
+  });
+});
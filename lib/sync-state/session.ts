@@ -0,0 +1,251 @@
+import { ZodType } from "zod";
+import { SyncMessage } from "./envelope";
+import { applyOperations } from "./splice";
+import { SyncState } from "./sync-state";
+
+/**
+ * Default number of entries a SessionRecorder keeps.
+ */
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+/**
+ * A single entry of a recorded session: a snapshot or envelope applied to the
+ * state, or a note about the session itself (e.g. a stream error).
+ */
+export type SessionEntry<T> =
+  | { type: "message"; timestamp: number; message: SyncMessage<T> }
+  | { type: "note"; timestamp: number; note: string };
+
+/**
+ * A recorded session in a JSON-serializable form.
+ */
+export interface SessionLog<T> {
+  entries: SessionEntry<T>[];
+}
+
+/**
+ * Parameters for constructing a SessionRecorder instance.
+ */
+interface SessionRecorderParam {
+  /**
+   * Number of entries to keep. Older entries are folded into the snapshot the
+   * log starts with, so the log stays replayable. Defaults to 10000.
+   */
+  maxEntries?: number;
+  /** Returns the current time in milliseconds. Defaults to Date.now. */
+  now?: () => number;
+}
+
+/**
+ * Records the snapshots and envelopes applied to a SyncState, with timestamps
+ * and versions, into a log that can be exported and replayed with
+ * SessionReplay. Pass it to a SyncState through the `recorder` parameter.
+ *
+ * @template T - The type of the recorded state.
+ */
+export class SessionRecorder<T> {
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+  private entries: SessionEntry<T>[] = [];
+
+  /**
+   * Creates a new SessionRecorder instance.
+   *
+   * @param param - Configuration object containing the entry limit and clock.
+   */
+  constructor({
+    maxEntries = DEFAULT_MAX_ENTRIES,
+    now = Date.now,
+  }: SessionRecorderParam = {}) {
+    this.maxEntries = maxEntries;
+    this.now = now;
+  }
+
+  /**
+   * Records a snapshot or envelope applied to the state.
+   *
+   * @param message - The applied message.
+   */
+  record(message: SyncMessage<T>): void {
+    this.push({
+      type: "message",
+      timestamp: this.now(),
+      message: structuredClone(message),
+    });
+  }
+
+  /**
+   * Records a note about the session, such as a connection event.
+   *
+   * @param note - The text of the note.
+   */
+  note(note: string): void {
+    this.push({ type: "note", timestamp: this.now(), note });
+  }
+
+  /**
+   * Returns a copy of the recorded session.
+   */
+  export(): SessionLog<T> {
+    return { entries: structuredClone(this.entries) };
+  }
+
+  /**
+   * Discards every recorded entry.
+   */
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Returns the number of recorded entries.
+   */
+  get length(): number {
+    return this.entries.length;
+  }
+
+  private push(entry: SessionEntry<T>): void {
+    this.entries.push(entry);
+    while (this.entries.length > this.maxEntries) {
+      this.fold();
+    }
+  }
+
+  /**
+   * Drops the oldest entry. When the log starts with a snapshot, the entry
+   * after it is applied to the snapshot instead, so replay still starts from a
+   * complete state.
+   */
+  private fold(): void {
+    const [first, second] = this.entries;
+    if (
+      first.type !== "message" ||
+      first.message.type !== "snapshot" ||
+      second === undefined
+    ) {
+      this.entries.shift();
+      return;
+    }
+
+    const { snapshot } = first.message;
+    if (second.type === "message") {
+      if (second.message.type === "snapshot") {
+        this.entries.shift();
+        return;
+      }
+      const { envelope } = second.message;
+      snapshot.state = applyOperations(snapshot.state, envelope.operations);
+      snapshot.version = envelope.version;
+      first.timestamp = second.timestamp;
+    }
+    this.entries.splice(1, 1);
+  }
+}
+
+/**
+ * Parameters for constructing a SessionReplay instance.
+ */
+interface SessionReplayParam<T extends object | object[]> {
+  schema: ZodType<T>;
+  log: SessionLog<T>;
+}
+
+/**
+ * Replays a recorded session step by step, reconstructing the state after any
+ * entry. Every step is validated against the schema like a live SyncState
+ * would, so a bad envelope fails at the step that introduced it.
+ *
+ * @template T - The type of the state object. Must be an object or array of objects.
+ */
+export class SessionReplay<T extends object | object[]> {
+  private readonly schema: ZodType<T>;
+  private readonly entries: SessionEntry<T>[];
+  private syncState: SyncState<T> | null = null;
+  private _position = 0;
+
+  /**
+   * Creates a new SessionReplay instance positioned before the first entry.
+   *
+   * @param param - Configuration object containing the Zod schema and the log to replay.
+   */
+  constructor({ schema, log }: SessionReplayParam<T>) {
+    this.schema = schema;
+    this.entries = log.entries;
+  }
+
+  /**
+   * Applies the next entry.
+   *
+   * @returns The entry that was applied, or null at the end of the log.
+   * @throws {SyncStateGapError} If the log is missing an envelope.
+   * @throws {z.ZodError} If the resulting state fails schema validation.
+   * @throws {PatchError} If the patch application fails.
+   */
+  step(): SessionEntry<T> | null {
+    const entry = this.entries[this._position];
+    if (entry === undefined) {
+      return null;
+    }
+
+    if (entry.type === "message") {
+      if (entry.message.type === "snapshot") {
+        this.syncState = new SyncState({
+          schema: this.schema,
+          initialState: entry.message.snapshot.state,
+          initialVersion: entry.message.snapshot.version,
+          bufferLimit: 0,
+        });
+      } else if (this.syncState) {
+        this.syncState.apply(entry.message.envelope);
+      }
+    }
+    this._position++;
+    return entry;
+  }
+
+  /**
+   * Moves to the position after the given number of entries, replaying from
+   * the start when moving backwards.
+   *
+   * @param position - The number of entries to have applied.
+   */
+  seek(position: number): void {
+    if (position < this._position) {
+      this.syncState = null;
+      this._position = 0;
+    }
+    while (this._position < position && this.step()) {
+      // Keep stepping
+    }
+  }
+
+  /**
+   * Returns the number of entries applied so far.
+   */
+  get position(): number {
+    return this._position;
+  }
+
+  /**
+   * Returns the number of entries in the log.
+   */
+  get length(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Returns the read-only state at the current position, or null before
+   * the first snapshot.
+   */
+  get state(): T | null {
+    return this.syncState?.state ?? null;
+  }
+
+  /**
+   * Returns the version at the current position, or null before the first
+   * snapshot.
+   */
+  get version(): number | null {
+    return this.syncState?.version ?? null;
+  }
+}
@@ -0,0 +1,174 @@
+import {
+  applyOperation,
+  getValueByPointer,
+  JsonPatchError,
+  Operation,
+} from "fast-json-patch";
+
+/**
+ * Extension operation that replaces part of a string in place. Unlike a
+ * `replace`, its size depends on the edited text only, so appending a token to
+ * a long string sends just the token. Offsets count UTF-16 code units, as
+ * JavaScript string indices do.
+ */
+export interface SpliceOperation {
+  op: "splice";
+  path: string;
+  /** Index of the first code unit to remove. */
+  offset: number;
+  /** Number of code units to remove. */
+  remove: number;
+  /** Text to insert at the offset. */
+  value: string;
+}
+
+/**
+ * A JSON Patch operation (RFC 6902) or a string splice.
+ */
+export type PatchOperation = Operation | SpliceOperation;
+
+/**
+ * Returns whether a code unit is the first half of a surrogate pair.
+ */
+function isHighSurrogate(text: string, index: number): boolean {
+  const code = text.charCodeAt(index);
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+/**
+ * Returns whether a code unit is the second half of a surrogate pair.
+ */
+function isLowSurrogate(text: string, index: number): boolean {
+  const code = text.charCodeAt(index);
+  return code >= 0xdc00 && code <= 0xdfff;
+}
+
+/**
+ * Returns a splice turning `original` into `updated` by keeping their common
+ * prefix and suffix, or null when they have nothing in common.
+ *
+ * @param path - The JSON Pointer of the string.
+ * @param original - The original string.
+ * @param updated - The updated string.
+ */
+export function diffText(
+  path: string,
+  original: string,
+  updated: string
+): SpliceOperation | null {
+  const limit = Math.min(original.length, updated.length);
+
+  let prefix = 0;
+  while (prefix < limit && original[prefix] === updated[prefix]) {
+    prefix++;
+  }
+  // Keep surrogate pairs together so neither half of the splice is malformed
+  if (prefix > 0 && isHighSurrogate(original, prefix - 1)) {
+    prefix--;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < limit - prefix &&
+    original[original.length - 1 - suffix] ===
+      updated[updated.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  if (suffix > 0 && isLowSurrogate(original, original.length - suffix)) {
+    suffix--;
+  }
+
+  if (prefix + suffix === 0) {
+    return null;
+  }
+  return {
+    op: "splice",
+    path,
+    offset: prefix,
+    remove: original.length - prefix - suffix,
+    value: updated.slice(prefix, updated.length - suffix),
+  };
+}
+
+/**
+ * Applies a splice to a document in place.
+ *
+ * @throws {JsonPatchError} If the path does not hold a string or the range is out of bounds.
+ */
+function applySplice<T>(
+  document: T,
+  operation: SpliceOperation,
+  index: number
+): T {
+  const current: unknown = getValueByPointer(document, operation.path);
+  if (typeof current !== "string") {
+    throw new JsonPatchError(
+      "Cannot splice a value that is not a string",
+      "OPERATION_PATH_UNRESOLVABLE",
+      index,
+      operation,
+      document
+    );
+  }
+  if (operation.offset + operation.remove > current.length) {
+    throw new JsonPatchError(
+      "Splice range is out of bounds",
+      "OPERATION_VALUE_OUT_OF_BOUNDS",
+      index,
+      operation,
+      document
+    );
+  }
+
+  const value =
+    current.slice(0, operation.offset) +
+    operation.value +
+    current.slice(operation.offset + operation.remove);
+  return applyOperation(
+    document,
+    { op: "replace", path: operation.path, value },
+    true,
+    true,
+    true,
+    index
+  ).newDocument;
+}
+
+/**
+ * Applies a JSON Patch operation or splice to a document in place.
+ *
+ * @param document - The document to modify.
+ * @param operation - The operation to apply.
+ * @param index - The position of the operation in its patch, for error reporting.
+ * @returns The modified document, which is a new value if the root was replaced.
+ * @throws {JsonPatchError} If the operation fails.
+ */
+export function applyPatchOperation<T>(
+  document: T,
+  operation: PatchOperation,
+  index: number
+): T {
+  return operation.op === "splice"
+    ? applySplice(document, operation, index)
+    : applyOperation(document, operation, true, true, true, index).newDocument;
+}
+
+/**
+ * Applies JSON Patch operations and splices to a document in place, in order.
+ *
+ * @param document - The document to modify.
+ * @param operations - The operations to apply.
+ * @returns The modified document.
+ * @throws {JsonPatchError} If an operation fails.
+ */
+export function applyOperations<T>(
+  document: T,
+  operations: PatchOperation[]
+): T {
+  return operations.reduce(
+    (current, operation, index) =>
+      applyPatchOperation(current, operation, index),
+    document
+  );
+}
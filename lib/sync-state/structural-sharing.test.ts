@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { shareStructure } from "./structural-sharing";
+
+describe("shareStructure", () => {
+  test("should return the previous value when nothing changed", () => {
+    const previous = { items: [{ id: 1 }, { id: 2 }], title: "List" };
+
+    const shared = shareStructure(previous, structuredClone(previous));
+
+    expect(shared).toBe(previous);
+  });
+
+  test("should keep unchanged subtrees and replace changed ones", () => {
+    const previous = { items: [{ id: 1 }, { id: 2 }], meta: { count: 2 } };
+    const next = structuredClone(previous);
+    next.items[1].id = 3;
+
+    const shared = shareStructure(previous, next);
+
+    expect(shared).toEqual(next);
+    expect(shared).not.toBe(previous);
+    expect(shared.items).not.toBe(previous.items);
+    expect(shared.items[0]).toBe(previous.items[0]);
+    expect(shared.items[1]).not.toBe(previous.items[1]);
+    expect(shared.meta).toBe(previous.meta);
+  });
+
+  test("should detect added and removed members", () => {
+    const previous = { a: 1, b: { c: 2 } };
+
+    const added = shareStructure(previous, { a: 1, b: { c: 2 }, d: 3 });
+    const removed = shareStructure(previous, { b: { c: 2 } });
+
+    expect(added).toEqual({ a: 1, b: { c: 2 }, d: 3 });
+    expect(added.b).toBe(previous.b);
+    expect(removed).toEqual({ b: { c: 2 } });
+    expect(removed.b).toBe(previous.b);
+  });
+
+  test("should not share between arrays and objects", () => {
+    const previous = { value: { 0: "a" } };
+
+    const shared = shareStructure(previous, { value: ["a"] });
+
+    expect(shared.value).toEqual(["a"]);
+  });
+
+  test("should replace values of a different type", () => {
+    expect(shareStructure({ a: 1 }, null)).toBeNull();
+    expect(shareStructure("text", { a: 1 })).toEqual({ a: 1 });
+  });
+});
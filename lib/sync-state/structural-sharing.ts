@@ -0,0 +1,52 @@
+import { isContainer } from "./json-pointer";
+
+/**
+ * Returns `next` with every subtree that is deeply equal to the same subtree of
+ * `previous` replaced by the one from `previous`, so unchanged objects and
+ * arrays keep their identity across updates. If nothing changed, `previous`
+ * itself is returned. This lets React.memo and selector hooks skip work for
+ * the parts of a state a patch did not touch.
+ *
+ * Neither argument is modified; `next` is only reused where `previous` has no
+ * equal subtree.
+ *
+ * @param previous - The value returned for the last update.
+ * @param next - The new value, typically a fresh copy.
+ * @returns A value deeply equal to `next` that shares unchanged subtrees with `previous`.
+ */
+export function shareStructure<T>(previous: unknown, next: T): T {
+  if (
+    Object.is(previous, next) ||
+    !isContainer(previous) ||
+    !isContainer(next) ||
+    Array.isArray(previous) !== Array.isArray(next)
+  ) {
+    return next;
+  }
+
+  if (Array.isArray(next)) {
+    const old = previous as unknown[];
+    const items = next.map((item, i) => shareStructure(old[i], item));
+    const unchanged =
+      items.length === old.length && items.every((item, i) => item === old[i]);
+    return (unchanged ? previous : items) as T;
+  }
+
+  const old = previous as Record<string, unknown>;
+  const entries = Object.entries(next).map(
+    ([key, value]) =>
+      [
+        key,
+        Object.prototype.hasOwnProperty.call(old, key)
+          ? shareStructure(old[key], value)
+          : value,
+      ] as const
+  );
+  const unchanged =
+    entries.length === Object.keys(old).length &&
+    entries.every(
+      ([key, value]) =>
+        Object.prototype.hasOwnProperty.call(old, key) && old[key] === value
+    );
+  return (unchanged ? previous : Object.fromEntries(entries)) as T;
+}
@@ -0,0 +1,978 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import { SyncState } from "./sync-state";
+import { SyncStateConflictError, SyncStateGapError } from "./errors";
+
+const schema = z.array(z.object({ count: z.number() }));
+
+/**
+ * Helper function to create a server/client pair sharing the same schema.
+ */
+function createPair() {
+  const server = new SyncState({ schema, initialState: [] });
+  const client = new SyncState({ schema, initialState: [] });
+  return { server, client };
+}
+
+describe("SyncState versioning", () => {
+  test("should wrap operations in envelopes with increasing versions", () => {
+    const { server } = createPair();
+
+    const first = server.mutateAndDiff((state) => [...state, { count: 1 }]);
+    const second = server.mutateAndDiff((state) => [...state, { count: 2 }]);
+
+    expect(first).toEqual({
+      baseVersion: 0,
+      version: 1,
+      operations: [{ op: "add", path: "/0", value: { count: 1 } }],
+    });
+    expect(second.baseVersion).toBe(1);
+    expect(second.version).toBe(2);
+    expect(server.version).toBe(2);
+  });
+
+  test("should apply envelopes in order", () => {
+    const { server, client } = createPair();
+
+    client.apply(server.mutateAndDiff((state) => [...state, { count: 1 }]));
+    client.apply(server.mutateAndDiff((state) => [...state, { count: 2 }]));
+
+    expect(client.state).toEqual([{ count: 1 }, { count: 2 }]);
+    expect(client.version).toBe(2);
+  });
+
+  test("should ignore duplicate envelopes", () => {
+    const { server, client } = createPair();
+
+    const envelope = server.mutateAndDiff((state) => [...state, { count: 1 }]);
+    client.apply(envelope);
+    client.apply(envelope);
+
+    expect(client.state).toEqual([{ count: 1 }]);
+    expect(client.version).toBe(1);
+  });
+
+  test("should buffer out-of-order envelopes until the gap is filled", () => {
+    const { server, client } = createPair();
+
+    const first = server.mutateAndDiff((state) => [...state, { count: 1 }]);
+    const second = server.mutateAndDiff((state) => [...state, { count: 2 }]);
+    const third = server.mutateAndDiff((state) => [...state, { count: 3 }]);
+
+    client.apply(third);
+    client.apply(second);
+    expect(client.version).toBe(0);
+
+    client.apply(first);
+    expect(client.state).toEqual([{ count: 1 }, { count: 2 }, { count: 3 }]);
+    expect(client.version).toBe(3);
+  });
+
+  test("should throw SyncStateGapError when the buffer limit is reached", () => {
+    const server = new SyncState({ schema, initialState: [] });
+    const client = new SyncState({ schema, initialState: [], bufferLimit: 0 });
+
+    server.mutateAndDiff((state) => [...state, { count: 1 }]);
+    const second = server.mutateAndDiff((state) => [...state, { count: 2 }]);
+
+    let error: unknown;
+    try {
+      client.apply(second);
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(SyncStateGapError);
+    expect(error).toMatchObject({
+      expectedBaseVersion: 0,
+      receivedBaseVersion: 1,
+    });
+  });
+
+  test("should start from the initial version", () => {
+    const syncState = new SyncState({
+      schema,
+      initialState: [{ count: 1 }],
+      initialVersion: 5,
+    });
+
+    const envelope = syncState.mutateAndDiff((state) => [...state]);
+
+    expect(envelope).toEqual({ baseVersion: 5, version: 6, operations: [] });
+  });
+});
+
+describe("SyncState history", () => {
+  test("should return missed envelopes since a version", () => {
+    const server = new SyncState({
+      schema,
+      initialState: [],
+      historyLimit: 10,
+    });
+    const client = new SyncState({ schema, initialState: [] });
+
+    client.apply(server.mutateAndDiff((state) => [...state, { count: 1 }]));
+    server.mutateAndDiff((state) => [...state, { count: 2 }]);
+    server.mutateAndDiff((state) => [...state, { count: 3 }]);
+
+    const missed = server.changesSince(client.version);
+    expect(missed?.map((envelope) => envelope.version)).toEqual([2, 3]);
+
+    missed?.forEach((envelope) => client.apply(envelope));
+    expect(client.state).toEqual(server.state);
+  });
+
+  test("should return an empty list when the receiver is up to date", () => {
+    const server = new SyncState({
+      schema,
+      initialState: [],
+      historyLimit: 10,
+    });
+    server.mutateAndDiff((state) => [...state, { count: 1 }]);
+
+    expect(server.changesSince(1)).toEqual([]);
+  });
+
+  test("should return null when the history no longer reaches back", () => {
+    const server = new SyncState({ schema, initialState: [], historyLimit: 2 });
+    server.mutateAndDiff((state) => [...state, { count: 1 }]);
+    server.mutateAndDiff((state) => [...state, { count: 2 }]);
+    server.mutateAndDiff((state) => [...state, { count: 3 }]);
+
+    expect(server.changesSince(0)).toBeNull();
+    expect(server.changesSince(1)?.length).toBe(2);
+  });
+
+  test("should return null for versions ahead of the current version", () => {
+    const server = new SyncState({ schema, initialState: [], historyLimit: 2 });
+
+    expect(server.changesSince(3)).toBeNull();
+  });
+
+  test("should return a snapshot of the state and version", () => {
+    const server = new SyncState({ schema, initialState: [] });
+    server.mutateAndDiff((state) => [...state, { count: 1 }]);
+
+    expect(server.snapshot()).toEqual({ version: 1, state: [{ count: 1 }] });
+  });
+});
+
+describe("SyncState handshake", () => {
+  test("should send a snapshot first to receivers that have not synced", () => {
+    const server = new SyncState({
+      schema,
+      initialState: [],
+      historyLimit: 10,
+    });
+    server.mutateAndDiff((state) => [...state, { count: 1 }]);
+
+    expect(server.catchUp()).toEqual([
+      { type: "snapshot", snapshot: { version: 1, state: [{ count: 1 }] } },
+    ]);
+  });
+
+  test("should send patches to receivers covered by the history", () => {
+    const server = new SyncState({
+      schema,
+      initialState: [],
+      historyLimit: 10,
+    });
+    const envelope = server.mutateAndDiff((state) => [...state, { count: 1 }]);
+
+    expect(server.catchUp(0)).toEqual([{ type: "patch", envelope }]);
+  });
+
+  test("should send a snapshot to receivers from another epoch", () => {
+    const server = new SyncState({
+      schema,
+      initialState: [],
+      historyLimit: 10,
+      epoch: "current",
+    });
+    server.mutateAndDiff((state) => [...state, { count: 1 }]);
+
+    expect(server.catchUp(0, "previous")).toEqual([
+      {
+        type: "snapshot",
+        snapshot: { version: 1, state: [{ count: 1 }], epoch: "current" },
+      },
+    ]);
+  });
+
+  test("should adopt the epoch of a snapshot", () => {
+    const server = new SyncState({ schema, initialState: [], epoch: "a" });
+    const client = new SyncState({ schema, initialState: [] });
+
+    client.reset(server.snapshot());
+
+    expect(client.epoch).toBe("a");
+  });
+
+  test("should let a late joiner attach to in-progress state", () => {
+    const server = new SyncState({
+      schema,
+      initialState: [],
+      historyLimit: 10,
+    });
+    const client = new SyncState({ schema, initialState: [] });
+
+    server.mutateAndDiff((state) => [...state, { count: 1 }]);
+    server.mutateAndDiff((state) => [...state, { count: 2 }]);
+
+    server.catchUp().forEach((message) => client.receive(message));
+    const envelope = server.mutateAndDiff((state) => [...state, { count: 3 }]);
+    client.receive({ type: "patch", envelope });
+
+    expect(client.state).toEqual([{ count: 1 }, { count: 2 }, { count: 3 }]);
+    expect(client.version).toBe(3);
+  });
+
+  test("should validate snapshots against the schema on reset", () => {
+    const client = new SyncState({ schema, initialState: [] });
+
+    expect(() => {
+      client.reset({
+        version: 1,
+        state: [{ count: "one" }] as unknown as { count: number }[],
+      });
+    }).toThrow();
+    expect(client.version).toBe(0);
+  });
+
+  test("should discard buffered envelopes on reset", () => {
+    const server = new SyncState({ schema, initialState: [] });
+    const client = new SyncState({ schema, initialState: [] });
+
+    server.mutateAndDiff((state) => [...state, { count: 1 }]);
+    const stale = server.mutateAndDiff((state) => [...state, { count: 2 }]);
+    client.apply(stale);
+
+    client.reset({ version: 5, state: [{ count: 9 }] });
+
+    expect(client.state).toEqual([{ count: 9 }]);
+    expect(client.version).toBe(5);
+  });
+});
+
+describe("SyncState draft mutations", () => {
+  test("should record the operations made to a draft", () => {
+    const { server, client } = createPair();
+    client.apply(server.mutateAndDiff(() => [{ count: 1 }]));
+
+    const envelope = server.mutate((draft) => {
+      draft[0].count++;
+      draft.push({ count: 5 });
+    });
+    client.apply(envelope);
+
+    expect(envelope).toEqual({
+      baseVersion: 1,
+      version: 2,
+      operations: [
+        { op: "replace", path: "/0/count", value: 2 },
+        { op: "add", path: "/1", value: { count: 5 } },
+      ],
+    });
+    expect(client.state).toEqual([{ count: 2 }, { count: 5 }]);
+  });
+
+  test("should leave the state unchanged when validation fails", () => {
+    const server = new SyncState({ schema, initialState: [{ count: 1 }] });
+
+    expect(() =>
+      server.mutate((draft) => {
+        (draft[0] as { count: unknown }).count = "many";
+      })
+    ).toThrow(z.ZodError);
+    expect(server.state).toEqual([{ count: 1 }]);
+    expect(server.version).toBe(0);
+  });
+});
+
+describe("SyncState client operations", () => {
+  test("should diff a mutation without changing the state", () => {
+    const client = new SyncState({ schema, initialState: [{ count: 1 }] });
+
+    const operations = client.diff((state) => [...state, { count: 2 }]);
+
+    expect(operations).toEqual([
+      { op: "add", path: "/1", value: { count: 2 } },
+    ]);
+    expect(client.state).toEqual([{ count: 1 }]);
+    expect(client.version).toBe(0);
+  });
+
+  test("should apply proposed operations as a new version", () => {
+    const server = new SyncState({ schema, initialState: [{ count: 1 }] });
+    const client = new SyncState({ schema, initialState: [{ count: 1 }] });
+
+    const envelope = server.applyOperations(
+      client.diff((state) => state.filter((_, i) => i !== 0))
+    );
+    client.apply(envelope);
+
+    expect(envelope).toEqual({
+      baseVersion: 0,
+      version: 1,
+      operations: [{ op: "remove", path: "/0" }],
+    });
+    expect(client.state).toEqual([]);
+    expect(client.version).toBe(1);
+  });
+
+  test("should reject proposed operations that violate the schema", () => {
+    const server = new SyncState({ schema, initialState: [{ count: 1 }] });
+
+    expect(() => {
+      server.applyOperations([
+        { op: "replace", path: "/0/count", value: "one" },
+      ]);
+    }).toThrow();
+    expect(server.state).toEqual([{ count: 1 }]);
+    expect(server.version).toBe(0);
+  });
+});
+
+describe("SyncState optimistic mutations", () => {
+  test("should show optimistic mutations on top of the confirmed state", () => {
+    const client = new SyncState({ schema, initialState: [{ count: 1 }] });
+
+    const mutation = client.mutateOptimistic((state) => [
+      ...state,
+      { count: 2 },
+    ]);
+
+    expect(mutation.operations).toEqual([
+      { op: "add", path: "/1", value: { count: 2 } },
+    ]);
+    expect(client.state).toEqual([{ count: 1 }, { count: 2 }]);
+    expect(client.confirmedState).toEqual([{ count: 1 }]);
+    expect(client.version).toBe(0);
+  });
+
+  test("should rebase pending mutations when server patches arrive", () => {
+    const server = new SyncState({ schema, initialState: [{ count: 1 }] });
+    const client = new SyncState({ schema, initialState: [{ count: 1 }] });
+
+    client.mutateOptimistic((state) => [{ ...state[0], count: 10 }]);
+    client.apply(server.mutateAndDiff((state) => [...state, { count: 2 }]));
+
+    expect(client.state).toEqual([{ count: 10 }, { count: 2 }]);
+    expect(client.confirmedState).toEqual([{ count: 1 }, { count: 2 }]);
+  });
+
+  test("should replace a pending mutation with the server's copy", () => {
+    const server = new SyncState({ schema, initialState: [] });
+    const client = new SyncState({ schema, initialState: [] });
+
+    const mutation = client.mutateOptimistic((state) => [
+      ...state,
+      { count: 1 },
+    ]);
+    client.apply(
+      server.applyOperations(mutation.operations, { mutationId: mutation.id })
+    );
+
+    expect(client.pendingMutations).toEqual([]);
+    expect(client.state).toEqual([{ count: 1 }]);
+  });
+
+  test("should drop confirmed mutations once their version is applied", () => {
+    const server = new SyncState({ schema, initialState: [] });
+    const client = new SyncState({ schema, initialState: [] });
+
+    const mutation = client.mutateOptimistic((state) => [
+      ...state,
+      { count: 1 },
+    ]);
+    const { version } = server.applyOperations(mutation.operations);
+    client.confirm(mutation.id, version);
+    expect(client.pendingMutations.length).toBe(1);
+
+    client.reset(server.snapshot());
+
+    expect(client.pendingMutations).toEqual([]);
+    expect(client.state).toEqual([{ count: 1 }]);
+  });
+
+  test("should roll back rejected mutations and notify the callback", () => {
+    const rolledBack: string[] = [];
+    const client = new SyncState({
+      schema,
+      initialState: [{ count: 1 }],
+      onRollback: (mutation) => rolledBack.push(mutation.id),
+    });
+
+    const mutation = client.mutateOptimistic(() => []);
+    client.reject(mutation.id, new Error("Forbidden"));
+
+    expect(client.state).toEqual([{ count: 1 }]);
+    expect(rolledBack).toEqual([mutation.id]);
+  });
+
+  test("should roll back pending mutations that conflict with the server", () => {
+    const rolledBack: unknown[] = [];
+    const server = new SyncState({ schema, initialState: [{ count: 1 }] });
+    const client = new SyncState({
+      schema,
+      initialState: [{ count: 1 }],
+      onRollback: (_, reason) => rolledBack.push(reason),
+    });
+
+    client.mutateOptimistic((state) => [{ ...state[0], count: 5 }]);
+    client.apply(server.mutateAndDiff(() => []));
+
+    expect(client.state).toEqual([]);
+    expect(client.pendingMutations).toEqual([]);
+    expect(rolledBack.length).toBe(1);
+    expect(rolledBack[0]).toBeInstanceOf(SyncStateConflictError);
+  });
+});
+
+describe("SyncState concurrent edits", () => {
+  test("should transform pending mutations against server patches", () => {
+    const initialState = [{ count: 1 }, { count: 2 }];
+    const server = new SyncState({ schema, initialState });
+    const client = new SyncState({ schema, initialState });
+
+    client.mutateOptimistic((state) =>
+      state.map((item, i) => (i === 1 ? { count: 20 } : item))
+    );
+    client.apply(
+      server.applyOperations([{ op: "add", path: "/0", value: { count: 0 } }])
+    );
+
+    expect(client.state).toEqual([{ count: 0 }, { count: 1 }, { count: 20 }]);
+  });
+
+  test("should transform operations made against an older version", () => {
+    const initialState = [{ count: 1 }, { count: 2 }];
+    const server = new SyncState({ schema, initialState, historyLimit: 10 });
+    const client = new SyncState({ schema, initialState });
+
+    const mutation = client.mutateOptimistic((state) =>
+      state.map((item, i) => (i === 1 ? { count: 20 } : item))
+    );
+    server.applyOperations([{ op: "remove", path: "/0" }]);
+    server.applyOperations(mutation.operations, {
+      mutationId: mutation.id,
+      baseVersion: mutation.baseVersion,
+    });
+
+    expect(server.state).toEqual([{ count: 20 }]);
+  });
+
+  test("should converge when a client and the server edit concurrently", () => {
+    const initialState = [{ count: 1 }, { count: 2 }, { count: 3 }];
+    const server = new SyncState({ schema, initialState, historyLimit: 10 });
+    const client = new SyncState({ schema, initialState });
+
+    const mutation = client.mutateOptimistic((state) =>
+      state.map((item, i) => (i === 2 ? { count: 30 } : item))
+    );
+    const concurrent = server.applyOperations([
+      { op: "add", path: "/0", value: { count: 0 } },
+    ]);
+    const confirmed = server.applyOperations(mutation.operations, {
+      mutationId: mutation.id,
+      baseVersion: mutation.baseVersion,
+    });
+
+    client.apply(concurrent);
+    client.apply(confirmed);
+
+    expect(server.state).toEqual([
+      { count: 0 },
+      { count: 1 },
+      { count: 2 },
+      { count: 30 },
+    ]);
+    expect(client.state).toEqual(server.state);
+    expect(client.pendingMutations).toEqual([]);
+  });
+
+  test("should skip the client's own earlier mutations when transforming", () => {
+    const server = new SyncState({
+      schema,
+      initialState: [],
+      historyLimit: 10,
+    });
+    const client = new SyncState({ schema, initialState: [] });
+
+    const first = client.mutateOptimistic((state) => [...state, { count: 1 }]);
+    const second = client.mutateOptimistic((state) => [{ count: 0 }, ...state]);
+    for (const mutation of [first, second]) {
+      server.applyOperations(mutation.operations, {
+        mutationId: mutation.id,
+        baseVersion: mutation.baseVersion,
+        baseMutationIds: mutation.baseMutationIds,
+      });
+    }
+
+    expect(server.state).toEqual([{ count: 0 }, { count: 1 }]);
+  });
+
+  test("should move concurrent changes past the client's earlier mutations", () => {
+    const initialState = [{ count: 1 }, { count: 2 }, { count: 3 }];
+    const server = new SyncState({ schema, initialState, historyLimit: 10 });
+
+    server.applyOperations([{ op: "remove", path: "/0" }]);
+    server.applyOperations([{ op: "add", path: "/0", value: { count: 0 } }], {
+      mutationId: "first",
+      baseVersion: 0,
+    });
+    // Made on top of the first mutation, editing the removed element
+    server.applyOperations([{ op: "replace", path: "/1/count", value: 10 }], {
+      mutationId: "second",
+      baseVersion: 0,
+      baseMutationIds: ["first"],
+    });
+
+    expect(server.state).toEqual([{ count: 0 }, { count: 2 }, { count: 3 }]);
+  });
+
+  test("should use the client's own copy of its earlier mutations", () => {
+    const initialState = [{ count: 1 }, { count: 2 }, { count: 3 }];
+    const server = new SyncState({ schema, initialState, historyLimit: 10 });
+
+    server.applyOperations([{ op: "remove", path: "/0" }]);
+    // Stored at /0 by the server, but made at /1 by the client
+    server.applyOperations([{ op: "add", path: "/1", value: { count: 5 } }], {
+      mutationId: "first",
+      baseVersion: 0,
+    });
+    server.applyOperations([{ op: "replace", path: "/2/count", value: 20 }], {
+      mutationId: "second",
+      baseVersion: 0,
+      baseMutationIds: ["first"],
+    });
+
+    expect(server.state).toEqual([{ count: 5 }, { count: 20 }, { count: 3 }]);
+  });
+
+  test("should throw SyncStateGapError for operations from another epoch", () => {
+    const server = new SyncState({
+      schema,
+      initialState: [{ count: 1 }],
+      historyLimit: 10,
+      epoch: "current",
+    });
+
+    expect(() => {
+      server.applyOperations([{ op: "remove", path: "/0" }], {
+        baseVersion: 0,
+        epoch: "previous",
+      });
+    }).toThrow(SyncStateGapError);
+    expect(server.state).toEqual([{ count: 1 }]);
+  });
+
+  test("should throw SyncStateGapError when the base version is too old", () => {
+    const server = new SyncState({ schema, initialState: [], historyLimit: 1 });
+    server.mutateAndDiff((state) => [...state, { count: 1 }]);
+    server.mutateAndDiff((state) => [...state, { count: 2 }]);
+
+    expect(() => {
+      server.applyOperations([{ op: "remove", path: "/0" }], {
+        baseVersion: 0,
+      });
+    }).toThrow(SyncStateGapError);
+  });
+});
+
+describe("SyncState undo", () => {
+  /**
+   * Helper function to create a state that keeps an undo history.
+   */
+  function createUndoable(undoLimit = 10) {
+    return new SyncState({ schema, initialState: [], undoLimit });
+  }
+
+  test("should revert the last change as a new version", () => {
+    const { client } = createPair();
+    const server = createUndoable();
+    client.apply(server.mutateAndDiff((state) => [...state, { count: 1 }]));
+    client.apply(server.mutateAndDiff(([item]) => [{ count: item.count + 1 }]));
+
+    const envelope = server.undo();
+    client.apply(envelope!);
+
+    expect(envelope).toEqual({
+      baseVersion: 2,
+      version: 3,
+      operations: [{ op: "replace", path: "/0/count", value: 1 }],
+    });
+    expect(server.state).toEqual([{ count: 1 }]);
+    expect(client.state).toEqual(server.state);
+  });
+
+  test("should redo an undone change", () => {
+    const server = createUndoable();
+    server.mutateAndDiff((state) => [...state, { count: 1 }]);
+
+    server.undo();
+    expect(server.state).toEqual([]);
+    expect(server.canRedo).toBe(true);
+
+    server.redo();
+    expect(server.state).toEqual([{ count: 1 }]);
+    expect(server.canRedo).toBe(false);
+    expect(server.canUndo).toBe(true);
+  });
+
+  test("should clear the redo history on a new change", () => {
+    const server = createUndoable();
+    server.mutateAndDiff((state) => [...state, { count: 1 }]);
+    server.undo();
+
+    server.mutateAndDiff((state) => [...state, { count: 2 }]);
+
+    expect(server.redo()).toBeNull();
+    expect(server.state).toEqual([{ count: 2 }]);
+  });
+
+  test("should keep at most undoLimit changes", () => {
+    const server = createUndoable(2);
+    server.mutateAndDiff((state) => [...state, { count: 1 }]);
+    server.mutateAndDiff((state) => [...state, { count: 2 }]);
+    server.mutateAndDiff((state) => [...state, { count: 3 }]);
+
+    server.undo();
+    server.undo();
+
+    expect(server.undo()).toBeNull();
+    expect(server.state).toEqual([{ count: 1 }]);
+  });
+
+  test("should undo operations applied for clients", () => {
+    const server = createUndoable();
+    server.applyOperations([{ op: "add", path: "/0", value: { count: 1 } }]);
+
+    server.undo();
+
+    expect(server.state).toEqual([]);
+  });
+
+  test("should keep changes from other sources when undoing", () => {
+    const other = new SyncState({ schema, initialState: [] });
+    const local = createUndoable();
+    local.apply(
+      other.applyOperations([{ op: "add", path: "/0", value: { count: 1 } }])
+    );
+    other.apply(
+      local.applyOperations([{ op: "add", path: "/1", value: { count: 2 } }])
+    );
+
+    // Another instance inserts in front of the element this one added
+    local.apply(
+      other.applyOperations([{ op: "add", path: "/0", value: { count: 0 } }])
+    );
+    local.undo();
+
+    expect(local.state).toEqual([{ count: 0 }, { count: 1 }]);
+  });
+
+  test("should not record anything without an undoLimit", () => {
+    const { server } = createPair();
+    server.mutateAndDiff((state) => [...state, { count: 1 }]);
+
+    expect(server.canUndo).toBe(false);
+    expect(server.undo()).toBeNull();
+  });
+});
+
+describe("SyncState subscriptions", () => {
+  const chatSchema = z.object({
+    title: z.string(),
+    messages: z.array(z.object({ content: z.string() })),
+  });
+
+  /**
+   * Helper function to create a chat transcript with the given messages.
+   */
+  function createChat(...contents: string[]) {
+    return new SyncState({
+      schema: chatSchema,
+      initialState: {
+        title: "Chat",
+        messages: contents.map((content) => ({ content })),
+      },
+      spliceStrings: true,
+    });
+  }
+
+  /**
+   * Helper function to subscribe to a path and collect the values it reports.
+   */
+  function listen(syncState: ReturnType<typeof createChat>, path: string) {
+    const values: unknown[] = [];
+    syncState.subscribe(path, (value) => values.push(value));
+    return values;
+  }
+
+  test("should notify listeners of the changed path only", () => {
+    const chat = createChat("Hi", "Hello");
+    const first = listen(chat, "/messages/0/content");
+    const second = listen(chat, "/messages/1/content");
+
+    chat.mutateAndDiff((state) => {
+      state.messages[1].content += " there";
+      return state;
+    });
+
+    expect(first).toEqual([]);
+    expect(second).toEqual(["Hello there"]);
+  });
+
+  test("should notify listeners of ancestors and descendants", () => {
+    const chat = createChat("Hi");
+    const root = listen(chat, "");
+    const messages = listen(chat, "/messages");
+    const title = listen(chat, "/title");
+    const content = listen(chat, "/messages/0/content");
+
+    chat.mutateAndDiff((state) => ({ ...state, messages: [] }));
+
+    expect(root).toHaveLength(1);
+    expect(messages).toEqual([[]]);
+    expect(title).toEqual([]);
+    expect(content).toEqual([undefined]);
+  });
+
+  test("should notify listeners of elements shifted by an insert", () => {
+    const chat = createChat("a", "b", "c");
+    const first = listen(chat, "/messages/0");
+    const third = listen(chat, "/messages/2");
+
+    chat.applyOperations([
+      { op: "add", path: "/messages/1", value: { content: "x" } },
+    ]);
+
+    expect(first).toEqual([]);
+    expect(third).toEqual([{ content: "b" }]);
+  });
+
+  test("should notify listeners of envelopes, snapshots and rollbacks", () => {
+    const server = createChat("Hi");
+    const client = createChat("Hi");
+    const content = listen(client, "/messages/0/content");
+
+    const mutation = client.mutateOptimistic((state) => {
+      state.messages[0].content = "Hey";
+      return state;
+    });
+    client.reject(mutation.id, new Error("Rejected"));
+    client.apply(
+      server.mutateAndDiff((state) => {
+        state.messages[0].content += "!";
+        return state;
+      })
+    );
+    client.reset(server.snapshot());
+
+    expect(content).toEqual(["Hey", "Hi", "Hi!", "Hi!"]);
+  });
+
+  test("should stop notifying after unsubscribing", () => {
+    const chat = createChat("Hi");
+    const values: unknown[] = [];
+    const unsubscribe = chat.subscribe("/title", (value) => values.push(value));
+
+    unsubscribe();
+    chat.mutateAndDiff((state) => ({ ...state, title: "Renamed" }));
+
+    expect(values).toEqual([]);
+  });
+
+  test("should read the value at a path", () => {
+    const chat = createChat("Hi");
+
+    expect(chat.getValue<string>("/messages/0/content")).toBe("Hi");
+    expect(chat.getValue("/messages/1/content")).toBeUndefined();
+  });
+});
+
+describe("SyncState structural sharing", () => {
+  test("should share unchanged items between versions", () => {
+    const { server, client } = createPair();
+    client.apply(
+      server.mutateAndDiff(() => [{ count: 1 }, { count: 2 }, { count: 3 }])
+    );
+    const serverBefore = server.state;
+    const clientBefore = client.state;
+
+    client.apply(
+      server.mutateAndDiff((state) => {
+        state[1].count++;
+        return state;
+      })
+    );
+
+    expect(server.state[0]).toBe(serverBefore[0]);
+    expect(server.state[1]).not.toBe(serverBefore[1]);
+    expect(client.state[2]).toBe(clientBefore[2]);
+    expect(client.state[1]).toEqual({ count: 3 });
+    expect(clientBefore[1]).toEqual({ count: 2 });
+  });
+
+  test("should not parse the whole state again for later mutations", () => {
+    const counted = z.array(z.object({ count: z.number() }));
+    const parse = counted.parse.bind(counted);
+    let parses = 0;
+    counted.parse = (value, params) => {
+      parses++;
+      return parse(value, params);
+    };
+    const server = new SyncState({ schema: counted, initialState: [] });
+    const counts: number[] = [];
+
+    for (let i = 0; i < 3; i++) {
+      parses = 0;
+      server.mutateAndDiff((state) => [...state, { count: i }]);
+      counts.push(parses);
+    }
+
+    expect(counts).toEqual([0, 0, 0]);
+    expect(server.state).toEqual([{ count: 0 }, { count: 1 }, { count: 2 }]);
+  });
+});
+
+describe("SyncState validation policies", () => {
+  /**
+   * Helper function to create a mutator producing an invalid state.
+   */
+  const invalid = () => [{ count: "one" }] as unknown as { count: number }[];
+
+  test("should validate every change by default", () => {
+    const { server } = createPair();
+
+    expect(() => server.mutateAndDiff(invalid)).toThrow(z.ZodError);
+    expect(server.validationMetrics.diff).toEqual({
+      runs: 1,
+      skipped: 0,
+      failures: 1,
+    });
+  });
+
+  test("should validate every n-th change", () => {
+    const server = new SyncState({
+      schema,
+      initialState: [],
+      validation: { diff: { every: 2 } },
+    });
+
+    server.mutateAndDiff(invalid);
+    expect(() => server.mutateAndDiff(invalid)).toThrow(z.ZodError);
+    expect(server.validationMetrics.diff).toEqual({
+      runs: 1,
+      skipped: 1,
+      failures: 1,
+    });
+  });
+
+  test("should reject validation intervals that are not positive", () => {
+    [0, -1, 1.5].forEach((every) =>
+      expect(
+        () =>
+          new SyncState({
+            schema,
+            initialState: [],
+            validation: { diff: { every } },
+          })
+      ).toThrow(RangeError)
+    );
+  });
+
+  test("should not count replayed pending mutations", () => {
+    const { server } = createPair();
+    const client = new SyncState({
+      schema,
+      initialState: [],
+      validation: { apply: { every: 2 } },
+    });
+
+    client.mutateOptimistic(() => [{ count: 1 }]);
+    client.apply(server.mutateAndDiff(() => [{ count: 2 }]));
+    client.apply(server.mutateAndDiff(() => [{ count: 3 }]));
+
+    // The snapshot and the second envelope are validated; the replays of the
+    // pending mutation after each envelope are not counted
+    expect(client.validationMetrics.apply).toEqual({
+      runs: 2,
+      skipped: 1,
+      failures: 0,
+    });
+  });
+
+  test("should validate only snapshots with the snapshot policy", () => {
+    const client = new SyncState({
+      schema,
+      initialState: [],
+      validation: { apply: "snapshot" },
+    });
+
+    client.apply({
+      version: 1,
+      baseVersion: 0,
+      operations: [{ op: "add", path: "/0", value: { count: "one" } }],
+    });
+
+    expect(client.state).toEqual([{ count: "one" }] as never);
+    expect(() =>
+      client.reset({ version: 2, state: [{ count: "two" }] as never })
+    ).toThrow(z.ZodError);
+    expect(client.validationMetrics.apply).toEqual({
+      runs: 2,
+      skipped: 1,
+      failures: 1,
+    });
+  });
+
+  test("should skip validation entirely when off", () => {
+    const server = new SyncState({
+      schema,
+      initialState: [{ count: "zero" }] as never,
+      validation: { diff: "off", apply: "off" },
+    });
+
+    server.mutateAndDiff(invalid);
+
+    expect(server.validationMetrics).toEqual({
+      diff: { runs: 0, skipped: 1, failures: 0 },
+      apply: { runs: 0, skipped: 1, failures: 0 },
+    });
+  });
+
+  test("should re-check the whole state after skipped changes", () => {
+    const server = new SyncState({
+      schema,
+      initialState: [],
+      validation: { diff: { every: 2 } },
+    });
+
+    server.mutateAndDiff(invalid);
+
+    // The second change is valid, but the state it builds on is not
+    expect(() =>
+      server.mutateAndDiff((state) => {
+        state.push({ count: 2 });
+        return state;
+      })
+    ).toThrow(z.ZodError);
+  });
+
+  test("should validate apply and diff independently", () => {
+    const { server } = createPair();
+    const client = new SyncState({
+      schema,
+      initialState: [],
+      validation: { diff: "off" },
+    });
+
+    client.apply(server.mutateAndDiff(() => [{ count: 1 }]));
+    client.diff(invalid);
+
+    expect(client.validationMetrics.apply.runs).toBe(2);
+    expect(client.validationMetrics.diff.skipped).toBe(1);
+  });
+});
@@ -1,6 +1,30 @@
-import { Operation } from "fast-json-patch";
 import { ZodType } from "zod";
+import { ArrayKeys } from "./diff";
+import { PatchEnvelope, SyncMessage, SyncSnapshot } from "./envelope";
+import { SyncStateConflictError, SyncStateGapError } from "./errors";
+import { draftMutation, draftOperations } from "./draft";
+import { invertOperations } from "./invert";
 import { JsonPatch } from "./json-patch";
+import {
+  isArrayPosition,
+  isIndex,
+  isPrefix,
+  parsePath,
+  valueAt,
+} from "./json-pointer";
+import type { SessionRecorder } from "./session";
+import { PatchOperation } from "./splice";
+import { transformOperations, transformPair } from "./transform";
+import {
+  ValidationMetrics,
+  ValidationOptions,
+  ValidationTracker,
+} from "./validation-policy";
+
+/**
+ * Default number of out-of-order envelopes held while waiting for a gap to fill.
+ */
+const DEFAULT_BUFFER_LIMIT = 16;
 
 /**
  * Parameters for constructing a SyncState instance.
@@ -8,6 +32,161 @@ import { JsonPatch } from "./json-patch";
 interface SyncStateParam<T extends object | object[]> {
   schema: ZodType<T>;
   initialState: T;
+  /** Version of the initial state. Defaults to 0. */
+  initialVersion?: number;
+  /**
+   * Identifies the history the versions belong to, e.g. one run of a server
+   * channel. It is included in snapshots and adopted with them, and receivers
+   * resuming from a version of another epoch get a snapshot instead.
+   * Defaults to undefined.
+   */
+  epoch?: string;
+  /** Arrays to diff by item identity instead of by position. */
+  arrayKeys?: ArrayKeys;
+  /** Diff changed strings into splice operations instead of replacing them. */
+  spliceStrings?: boolean;
+  /**
+   * Maximum number of out-of-order envelopes to buffer before raising a
+   * SyncStateGapError. Set to 0 to reject out-of-order envelopes immediately.
+   */
+  bufferLimit?: number;
+  /**
+   * Number of recent envelopes to retain so reconnecting clients can catch up
+   * with changesSince(). Defaults to 0 (no history).
+   */
+  historyLimit?: number;
+  /**
+   * Number of changes made through mutateAndDiff() and applyOperations() that
+   * can be reverted with undo(). Defaults to 0 (no undo history).
+   */
+  undoLimit?: number;
+  /**
+   * Records the initial state and every snapshot and envelope applied to the
+   * confirmed state, so the session can be replayed later.
+   */
+  recorder?: SessionRecorder<T>;
+  /**
+   * How often local changes (diff) and received changes (apply) are validated
+   * against the schema. Both default to "strict", validating every change.
+   */
+  validation?: ValidationOptions;
+  /**
+   * Called when an optimistic mutation is rolled back, either because the
+   * server rejected it or because it no longer applies on top of newer
+   * server state.
+   */
+  onRollback?: (mutation: PendingMutation, reason: unknown) => void;
+}
+
+/**
+ * Options for applying operations proposed by a client.
+ */
+export interface ApplyOperationsOptions {
+  /** The id of the client mutation the operations came from. */
+  mutationId?: string;
+  /**
+   * The version the operations were made against. Operations made against an
+   * older version are transformed against the changes applied since.
+   */
+  baseVersion?: number;
+  /**
+   * The epoch the base version belongs to. Operations made against another
+   * epoch's version cannot be transformed.
+   */
+  epoch?: string;
+  /**
+   * Ids of the client's earlier mutations the operations were made on top of.
+   * Concurrent changes are moved past them instead of being skipped.
+   */
+  baseMutationIds?: string[];
+}
+
+/**
+ * An optimistic mutation that has been applied locally but not yet confirmed
+ * by the server.
+ */
+export interface PendingMutation {
+  id: string;
+  operations: PatchOperation[];
+  /** Confirmed version the mutation was made against. */
+  baseVersion: number;
+  /** Ids of the pending mutations the operations were made on top of. */
+  baseMutationIds: string[];
+  /** Version that includes the mutation, once the server has acknowledged it. */
+  confirmedVersion?: number;
+}
+
+/**
+ * A listener registered with subscribe(), together with its parsed path.
+ */
+interface Subscription {
+  path: string[];
+  listener: (value: unknown) => void;
+}
+
+/**
+ * Operations a client proposed with applyOperations(), as made on top of its
+ * own view of the state. Kept while their envelope is in the history.
+ */
+interface Submission {
+  operations: PatchOperation[];
+  baseVersion: number;
+  baseMutationIds: string[];
+}
+
+/**
+ * Returns whether an operation may change the value at `path`: it writes to the
+ * path itself, to one of its ancestors or descendants, or it inserts or removes
+ * an array element before the element the path goes through.
+ */
+function affects(operation: PatchOperation, path: string[]): boolean {
+  if (operation.op === "test") {
+    return false;
+  }
+  const written = [parsePath(operation.path)];
+  if (operation.op === "move") {
+    written.push(parsePath(operation.from));
+  }
+  const shifts =
+    operation.op === "add" ||
+    operation.op === "remove" ||
+    operation.op === "move";
+
+  return written.some((target) => {
+    if (isPrefix(target, path) || isPrefix(path, target)) {
+      return true;
+    }
+    const depth = target.length - 1;
+    const last = target[depth];
+    if (
+      !shifts ||
+      !isArrayPosition(last) ||
+      path.length <= depth ||
+      !isPrefix(target.slice(0, depth), path) ||
+      !isIndex(path[depth])
+    ) {
+      return false;
+    }
+    // Where "-" appends depends on the array, so assume it may be this element
+    return last === "-" || Number(path[depth]) >= Number(last);
+  });
+}
+
+/**
+ * Transforms a stack of undo or redo entries against operations applied to the
+ * state its top entry applies to. Each entry applies on top of the one above
+ * it, so the operations are carried down the stack as they are transformed.
+ * Entries left without operations are dropped.
+ */
+function transformStack(
+  stack: PatchOperation[][],
+  against: PatchOperation[]
+): PatchOperation[][] {
+  const transformed = [...stack];
+  for (let i = transformed.length - 1; i >= 0; i--) {
+    [transformed[i], against] = transformPair(transformed[i], against);
+  }
+  return transformed.filter((entry) => entry.length > 0);
 }
 
 /**
@@ -18,7 +197,29 @@ interface SyncStateParam<T extends object | object[]> {
  */
 export class SyncState<T extends object | object[]> {
   private readonly jsonPatch: JsonPatch<T>;
+  private readonly bufferLimit: number;
+  private readonly historyLimit: number;
+  private readonly undoLimit: number;
+  private readonly buffered = new Map<number, PatchEnvelope>();
+  private readonly history: PatchEnvelope[] = [];
+  private readonly submissions = new Map<string, Submission>();
+  private readonly onRollback: SyncStateParam<T>["onRollback"];
+  private readonly recorder: SessionRecorder<T> | undefined;
+  private readonly diffValidation: ValidationTracker;
+  private readonly applyValidation: ValidationTracker;
+  private readonly subscriptions = new Set<Subscription>();
+  private pending: PendingMutation[] = [];
+  private conflicts: PendingMutation[] = [];
+  private undoStack: PatchOperation[][] = [];
+  private redoStack: PatchOperation[][] = [];
+  /** Operations applied to the confirmed state since listeners were notified. */
+  private changes: PatchOperation[] = [];
+  /** Operations of the pending mutations layered into the current view. */
+  private layered: PatchOperation[] = [];
   private _state: T;
+  private _view: T;
+  private _version: number;
+  private _epoch: string | undefined;
 
   /**
    * Creates a new SyncState instance.
@@ -26,46 +227,767 @@ export class SyncState<T extends object | object[]> {
    * @param param - Configuration object containing the Zod schema and initial state.
    * @throws {z.ZodError} If the initial state fails schema validation.
    */
-  constructor({ schema, initialState }: SyncStateParam<T>) {
-    this.jsonPatch = new JsonPatch({ schema });
-    // Validate and store initial state
-    this._state = schema.parse(initialState);
+  constructor({
+    schema,
+    initialState,
+    initialVersion = 0,
+    epoch,
+    arrayKeys,
+    spliceStrings,
+    bufferLimit = DEFAULT_BUFFER_LIMIT,
+    historyLimit = 0,
+    undoLimit = 0,
+    recorder,
+    validation = {},
+    onRollback,
+  }: SyncStateParam<T>) {
+    this.jsonPatch = new JsonPatch({ schema, arrayKeys, spliceStrings });
+    this.diffValidation = new ValidationTracker(validation.diff);
+    this.applyValidation = new ValidationTracker(validation.apply);
+    // Validate and store a copy of the initial state, which later patches share
+    this._state = this.adoptSnapshot(initialState);
+    this._view = this._state;
+    this._version = initialVersion;
+    this._epoch = epoch;
+    this.bufferLimit = bufferLimit;
+    this.historyLimit = historyLimit;
+    this.undoLimit = undoLimit;
+    this.onRollback = onRollback;
+    this.recorder = recorder;
+    recorder?.record({ type: "snapshot", snapshot: this.snapshot() });
   }
 
   /**
-   * Applies a mutation function to the state and returns the JSON Patch operations
-   * that represent the changes. The internal state is updated to the new state.
+   * Applies a mutation function to the state and returns an envelope holding the
+   * JSON Patch operations that represent the changes. The internal state is
+   * updated to the new state and the version is incremented.
    *
-   * @param mutator - A function that receives a copy of the current state and returns the new state.
-   * @returns An array of JSON Patch operations describing the changes.
+   * @param mutator - A function that receives a draft of the current state and returns the new state.
+   * @returns An envelope with the operations describing the changes.
    * @throws {z.ZodError} If the new state fails schema validation.
    */
-  mutateAndDiff(mutator: (state: T) => T): Operation[] {
+  mutateAndDiff(mutator: (state: T) => T): PatchEnvelope {
     const original = this._state;
-    const updated = mutator(structuredClone(this._state));
-    const operations = this.jsonPatch.diff({ original, updated });
-    this._state = updated;
-    return operations;
+    const { operations, updated } = this.diffMutation(original, mutator);
+    return this.commit(original, updated, operations);
+  }
+
+  /**
+   * Applies changes made to a draft of the state and returns an envelope
+   * holding the JSON Patch operations recorded while the recipe ran, without
+   * diffing the whole state. The draft can be modified in place like the state
+   * itself (see draftOperations()). The version is incremented.
+   *
+   * @param recipe - A function that receives a draft of the current state and changes it in place.
+   * @returns An envelope with the operations describing the changes.
+   * @throws {z.ZodError} If the new state fails schema validation. The state is left unchanged.
+   * @throws {RangeError} If the recipe leaves holes in an array.
+   */
+  mutate(recipe: (draft: T) => void): PatchEnvelope {
+    const original = this._state;
+    const { operations } = draftOperations(original, recipe);
+    // Applying the recorded operations validates only the parts they changed
+    const updated = this.diffValidation.track("change", (validate) =>
+      this.jsonPatch.apply({ original, patch: operations, validate })
+    );
+    return this.commit(original, updated, operations);
   }
 
   /**
-   * Applies JSON Patch operations to the current state.
+   * Returns the JSON Patch operations a mutation would produce without changing
+   * the state. Clients use this to propose edits to the authoritative state.
+   *
+   * @param mutator - A function that receives a draft of the current state and returns the new state.
+   * @returns An array of JSON Patch operations describing the changes.
+   * @throws {z.ZodError} If the new state fails schema validation.
+   */
+  diff(mutator: (state: T) => T): PatchOperation[] {
+    return this.diffMutation(this._view, mutator).operations;
+  }
+
+  /**
+   * Applies a mutation optimistically: the change is visible through `state`
+   * immediately, layered on top of the confirmed server state, until the
+   * server confirms or rejects it. The returned operations should be sent to
+   * the server along with the mutation id.
+   *
+   * @param mutator - A function that receives a draft of the current state and returns the new state.
+   * @returns The pending mutation holding its id and operations.
+   * @throws {z.ZodError} If the new state fails schema validation.
+   */
+  mutateOptimistic(mutator: (state: T) => T): PendingMutation {
+    const { operations, updated } = this.diffMutation(this._view, mutator);
+    const mutation = {
+      id: crypto.randomUUID(),
+      operations,
+      baseVersion: this._version,
+      baseMutationIds: this.pending.map((pending) => pending.id),
+    };
+    this.pending.push(mutation);
+    this._view = updated;
+    this.layered.push(...operations);
+    this.notify(operations);
+    return mutation;
+  }
+
+  /**
+   * Records that the server accepted an optimistic mutation. The mutation stays
+   * layered on top of the confirmed state until the state reaches the version
+   * that includes it.
+   *
+   * @param id - The id of the pending mutation.
+   * @param version - The server version that includes the mutation.
+   */
+  confirm(id: string, version: number): void {
+    const mutation = this.pending.find((pending) => pending.id === id);
+    if (mutation) {
+      mutation.confirmedVersion = version;
+      this.rebase();
+    }
+  }
+
+  /**
+   * Rolls back an optimistic mutation the server rejected and reports it to
+   * the onRollback callback.
+   *
+   * @param id - The id of the pending mutation.
+   * @param reason - Why the server rejected the mutation.
+   */
+  reject(id: string, reason: unknown): void {
+    const mutation = this.pending.find((pending) => pending.id === id);
+    if (mutation) {
+      this.pending = this.pending.filter((pending) => pending !== mutation);
+      this.rebase();
+      this.onRollback?.(mutation, reason);
+    }
+  }
+
+  /**
+   * Applies JSON Patch operations to the current state as a new version and
+   * returns the envelope to broadcast. Used by the authoritative state to
+   * accept operations proposed by clients. Operations made against an older
+   * version are first transformed against the changes applied since, so
+   * concurrent array edits still target the intended elements.
    *
    * @param operations - An array of JSON Patch operations to apply.
+   * @param options - The client mutation id and the version the operations were made against.
+   * @returns An envelope with the applied operations.
+   * @throws {SyncStateGapError} If the history no longer covers the base version, or it belongs to another epoch.
    * @throws {z.ZodError} If the resulting state fails schema validation.
    * @throws {PatchError} If the patch application fails.
    */
-  apply(operations: Operation[]): void {
-    this._state = this.jsonPatch.apply({
-      original: this._state,
-      patch: operations,
-    });
+  applyOperations(
+    operations: PatchOperation[],
+    {
+      mutationId,
+      baseVersion,
+      epoch,
+      baseMutationIds = [],
+    }: ApplyOperationsOptions = {}
+  ): PatchEnvelope {
+    if (baseVersion !== undefined && epoch !== this._epoch) {
+      throw new SyncStateGapError({
+        expectedBaseVersion: this._version,
+        receivedBaseVersion: baseVersion,
+      });
+    }
+    const envelope: PatchEnvelope = {
+      baseVersion: this._version,
+      version: this._version + 1,
+      operations:
+        baseVersion === undefined
+          ? operations
+          : this.rebaseOperations(operations, baseVersion, baseMutationIds),
+    };
+    if (mutationId !== undefined) {
+      envelope.mutationId = mutationId;
+    }
+    const original = this._state;
+    this.applyEnvelope(envelope);
+    if (mutationId !== undefined && this.historyLimit > 0) {
+      this.submissions.set(mutationId, {
+        operations,
+        baseVersion: baseVersion ?? envelope.baseVersion,
+        baseMutationIds,
+      });
+    }
+    this.recordUndo(original, envelope.operations);
+    this.rebase();
+    return envelope;
+  }
+
+  /**
+   * Reverts the most recent change made through mutateAndDiff(),
+   * applyOperations() or redo() as a new version and returns the envelope to
+   * broadcast. Envelopes applied with apply() since then are kept: the
+   * reverting operations are transformed against them.
+   *
+   * @returns The envelope with the reverting operations, or null if there is nothing to undo.
+   * @throws {z.ZodError} If the resulting state fails schema validation.
+   * @throws {PatchError} If the patch application fails.
+   */
+  undo(): PatchEnvelope | null {
+    return this.revert(this.undoStack, this.redoStack);
   }
 
   /**
-   * Returns a deep copy of the current state.
+   * Reapplies the most recently undone change as a new version and returns the
+   * envelope to broadcast. Any other change made since the undo clears what
+   * can be redone.
+   *
+   * @returns The envelope with the reapplied operations, or null if there is nothing to redo.
+   * @throws {z.ZodError} If the resulting state fails schema validation.
+   * @throws {PatchError} If the patch application fails.
+   */
+  redo(): PatchEnvelope | null {
+    return this.revert(this.redoStack, this.undoStack);
+  }
+
+  /**
+   * Applies a patch envelope to the current state.
+   * Envelopes at or below the current version are ignored as duplicates.
+   * Envelopes that arrive ahead of the current version are buffered until the
+   * missing envelopes arrive.
+   *
+   * @param envelope - The envelope containing the JSON Patch operations to apply.
+   * @throws {SyncStateGapError} If the envelope cannot be applied or buffered.
+   * @throws {z.ZodError} If the resulting state fails schema validation.
+   * @throws {PatchError} If the patch application fails.
+   */
+  apply(envelope: PatchEnvelope): void {
+    if (envelope.version <= this._version) {
+      return;
+    }
+
+    if (envelope.baseVersion !== this._version) {
+      this.buffer(envelope);
+      return;
+    }
+
+    this.applyEnvelope(envelope);
+    this.transformUndo(envelope.operations);
+
+    // Drain any buffered envelopes that are now contiguous
+    let next = this.buffered.get(this._version);
+    while (next) {
+      this.buffered.delete(this._version);
+      this.applyEnvelope(next);
+      this.transformUndo(next.operations);
+      next = this.buffered.get(this._version);
+    }
+
+    this.rebase();
+  }
+
+  /**
+   * Returns the envelopes needed to bring a copy of the state from the given
+   * version up to the current version.
+   *
+   * @param version - The last version the receiver has applied.
+   * @returns The missing envelopes in order, or null if the retained history
+   *          does not reach back far enough and a snapshot is required instead.
+   */
+  changesSince(version: number): PatchEnvelope[] | null {
+    if (version === this._version) {
+      return [];
+    }
+    if (version > this._version) {
+      return null;
+    }
+    const start = this.history.findIndex(
+      (envelope) => envelope.baseVersion === version
+    );
+    return start === -1 ? null : this.history.slice(start);
+  }
+
+  /**
+   * Returns a deep copy of the current state together with its version.
+   */
+  snapshot(): SyncSnapshot<T> {
+    const snapshot: SyncSnapshot<T> = {
+      version: this._version,
+      state: structuredClone(this._state),
+    };
+    if (this._epoch !== undefined) {
+      snapshot.epoch = this._epoch;
+    }
+    return snapshot;
+  }
+
+  /**
+   * Replaces the current state with a snapshot, discarding any buffered
+   * envelopes, retained history and undo history. Pending optimistic mutations that the
+   * snapshot does not include yet are replayed on top of it.
+   *
+   * @param snapshot - The snapshot to adopt.
+   * @throws {z.ZodError} If the snapshot state fails schema validation.
+   */
+  reset(snapshot: SyncSnapshot<T>): void {
+    this._state = this.adoptSnapshot(snapshot.state);
+    this._version = snapshot.version;
+    this._epoch = snapshot.epoch;
+    this.changes.push({ op: "replace", path: "", value: snapshot.state });
+    this.buffered.clear();
+    this.history.length = 0;
+    this.submissions.clear();
+    this.undoStack = [];
+    this.redoStack = [];
+    this.recorder?.record({ type: "snapshot", snapshot });
+    this.rebase();
+  }
+
+  /**
+   * Returns the messages that bring a receiver up to the current version.
+   * Receivers that have not synced yet, whose version belongs to another
+   * epoch, or whose version is no longer covered by the retained history,
+   * receive a snapshot; others receive the missed patch envelopes.
+   *
+   * @param sinceVersion - The last version the receiver applied, if any.
+   * @param epoch - The epoch of the receiver's version.
+   * @returns The messages to send, in order.
+   */
+  catchUp(sinceVersion?: number, epoch?: string): SyncMessage<T>[] {
+    const envelopes =
+      sinceVersion === undefined || epoch !== this._epoch
+        ? null
+        : this.changesSince(sinceVersion);
+    if (envelopes === null) {
+      return [{ type: "snapshot", snapshot: this.snapshot() }];
+    }
+    return envelopes.map((envelope) => ({ type: "patch", envelope }));
+  }
+
+  /**
+   * Applies a message received from a SyncState stream.
+   * Snapshots replace the state via reset(); patches are applied via apply().
+   *
+   * @param message - The snapshot or patch message to apply.
+   * @throws {z.ZodError} If the resulting state fails schema validation.
+   * @throws {SyncStateGapError} If a patch envelope cannot be applied or buffered.
+   */
+  receive(message: SyncMessage<T>): void {
+    if (message.type === "snapshot") {
+      this.reset(message.snapshot);
+    } else {
+      this.apply(message.envelope);
+    }
+  }
+
+  /**
+   * Registers a listener for the value at a JSON Pointer in the current state,
+   * including pending optimistic mutations. The listener is called with the
+   * new, read-only value (undefined once it no longer exists) whenever an
+   * operation touches the path, one of its ancestors or one of its
+   * descendants, so changes elsewhere in the state do not reach it. The empty
+   * path "" listens to every change.
+   *
+   * @param path - The JSON Pointer to listen to, e.g. "/messages/3/content".
+   * @param listener - Called with the value at the path after it may have changed.
+   * @returns A function that removes the listener.
+   */
+  subscribe<V = unknown>(
+    path: string,
+    listener: (value: V | undefined) => void
+  ): () => void {
+    const subscription: Subscription = {
+      path: parsePath(path),
+      listener: listener as (value: unknown) => void,
+    };
+    this.subscriptions.add(subscription);
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  /**
+   * Returns the value at a JSON Pointer in the current state, including
+   * pending optimistic mutations. Like `state`, it is read-only.
+   *
+   * @param path - The JSON Pointer of the value, e.g. "/messages/3/content".
+   * @returns The value, or undefined if the path does not exist.
+   */
+  getValue<V = unknown>(path: string): V | undefined {
+    return valueAt(this._view, parsePath(path)) as V | undefined;
+  }
+
+  /**
+   * Returns the current state, including pending optimistic mutations.
+   * Patches are applied without copying the branches they do not touch, so
+   * successive states share unchanged objects and arrays. The returned state
+   * must therefore not be modified; use snapshot() for a copy that may be.
    */
   get state(): T {
-    return structuredClone(this._state);
+    return this._view;
+  }
+
+  /**
+   * Returns the state confirmed by the server, without pending optimistic
+   * mutations. Like `state`, it is read-only.
+   */
+  get confirmedState(): T {
+    return this._state;
+  }
+
+  /**
+   * Returns the optimistic mutations that have not been confirmed yet.
+   */
+  get pendingMutations(): readonly PendingMutation[] {
+    return this.pending;
+  }
+
+  /**
+   * Returns the version of the current state.
+   */
+  get version(): number {
+    return this._version;
+  }
+
+  /**
+   * Returns the epoch the version belongs to, if any.
+   */
+  get epoch(): string | undefined {
+    return this._epoch;
+  }
+
+  /**
+   * Returns whether undo() has a change to revert.
+   */
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Returns whether redo() has a change to reapply.
+   */
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Returns how often local changes (diff) and received changes and snapshots
+   * (apply) were validated, skipped by the validation policy, and rejected.
+   */
+  get validationMetrics(): {
+    diff: ValidationMetrics;
+    apply: ValidationMetrics;
+  } {
+    return {
+      diff: this.diffValidation.metrics,
+      apply: this.applyValidation.metrics,
+    };
+  }
+
+  /**
+   * Returns a copy of a snapshot's state, validated unless the apply policy
+   * is "off".
+   */
+  private adoptSnapshot(state: T): T {
+    const copy = structuredClone(state);
+    return this.applyValidation.track("snapshot", (validate) =>
+      validate ? this.jsonPatch.validate(copy) : copy
+    );
+  }
+
+  private applyEnvelope(envelope: PatchEnvelope): void {
+    this._state = this.applyValidation.track("change", (validate) =>
+      this.jsonPatch.apply({
+        original: this._state,
+        patch: envelope.operations,
+        validate,
+      })
+    );
+    this._version = envelope.version;
+    this.changes.push(...envelope.operations);
+    this.record(envelope);
+    this.recorder?.record({ type: "patch", envelope });
+
+    if (this.pending.some((pending) => pending.id === envelope.mutationId)) {
+      // The server's copy of an optimistic mutation replaces the local one
+      this.pending = this.pending.filter(
+        (pending) => pending.id !== envelope.mutationId
+      );
+      return;
+    }
+
+    // Pending mutations were made concurrently with this envelope
+    let against = envelope.operations;
+    this.pending.forEach((pending) => {
+      const count = pending.operations.length;
+      [pending.operations, against] = transformPair(
+        pending.operations,
+        against
+      );
+      if (pending.operations.length < count) {
+        this.conflicts.push(pending);
+      }
+    });
+  }
+
+  /**
+   * Runs a mutator on a draft of a state and returns the operations for its
+   * changes, with the state they produce. Only what the mutator changes is
+   * copied, and the diff skips the branches it shares with the state.
+   * The diff is applied rather than adopting the mutator's result, so the new
+   * state is known to be valid, which lets the next change validate only what
+   * it changes.
+   */
+  private diffMutation(
+    original: T,
+    mutator: (state: T) => T
+  ): { operations: PatchOperation[]; updated: T } {
+    const operations = this.jsonPatch.diff({
+      original,
+      updated: draftMutation(original, mutator),
+      validate: false,
+    });
+    const updated = this.diffValidation.track("change", (validate) =>
+      this.jsonPatch.apply({ original, patch: operations, validate })
+    );
+    return { operations, updated };
+  }
+
+  /**
+   * Adopts a state produced by a local mutation as a new version and returns
+   * the envelope describing it.
+   */
+  private commit(
+    original: T,
+    updated: T,
+    operations: PatchOperation[]
+  ): PatchEnvelope {
+    this._state = updated;
+    this.changes.push(...operations);
+    this.recordUndo(original, operations);
+    const envelope = {
+      baseVersion: this._version,
+      version: ++this._version,
+      operations,
+    };
+    this.record(envelope);
+    this.recorder?.record({ type: "patch", envelope });
+    this.rebase();
+    return envelope;
+  }
+
+  /**
+   * Transforms operations made against an older version so they apply to the
+   * state at `untilVersion`, the current version by default.
+   * The operations were made on top of the client's own earlier mutations, so
+   * the changes the client had not seen are moved past each of them in order,
+   * as the client's applyEnvelope() moves incoming changes past its pending
+   * mutations.
+   */
+  private rebaseOperations(
+    operations: PatchOperation[],
+    baseVersion: number,
+    baseMutationIds: string[],
+    untilVersion = this._version
+  ): PatchOperation[] {
+    const concurrent = this.changesSince(baseVersion);
+    if (concurrent === null) {
+      throw new SyncStateGapError({
+        expectedBaseVersion: this._version,
+        receivedBaseVersion: baseVersion,
+      });
+    }
+
+    let against: PatchOperation[] = [];
+    for (const envelope of concurrent) {
+      if (envelope.version > untilVersion) {
+        break;
+      }
+      if (
+        envelope.mutationId !== undefined &&
+        baseMutationIds.includes(envelope.mutationId)
+      ) {
+        [, against] = transformPair(
+          this.clientOperations(envelope, baseVersion),
+          against
+        );
+      } else {
+        against = [...against, ...envelope.operations];
+      }
+    }
+    return transformOperations(operations, against);
+  }
+
+  /**
+   * Returns the operations of a client's mutation as the client had them when
+   * its confirmed version was `version`. Envelopes without a submission, such
+   * as ones applied from another instance, fall back to their own operations.
+   */
+  private clientOperations(
+    envelope: PatchEnvelope,
+    version: number
+  ): PatchOperation[] {
+    const submission = this.submissions.get(envelope.mutationId!);
+    if (submission === undefined) {
+      return envelope.operations;
+    }
+    if (submission.baseVersion >= version) {
+      return submission.operations;
+    }
+    return this.rebaseOperations(
+      submission.operations,
+      submission.baseVersion,
+      submission.baseMutationIds,
+      version
+    );
+  }
+
+  /**
+   * Rebuilds the optimistic view by replaying pending mutations on top of the
+   * confirmed state. Mutations the confirmed state already includes are
+   * dropped; mutations that conflict with server changes or no longer apply
+   * are rolled back.
+   */
+  private rebase(): void {
+    const rolledBack: [PendingMutation, unknown][] = this.conflicts.map(
+      (pending) => [pending, new SyncStateConflictError(pending.id)]
+    );
+    this.conflicts = [];
+
+    this.pending = this.pending.filter(
+      (pending) =>
+        (pending.confirmedVersion === undefined ||
+          pending.confirmedVersion > this._version) &&
+        !rolledBack.some(([mutation]) => mutation === pending)
+    );
+
+    let view = this._state;
+    this.pending = this.pending.filter((pending) => {
+      try {
+        view = this.applyValidation.replay((validate) =>
+          this.jsonPatch.apply({
+            original: view,
+            patch: pending.operations,
+            validate,
+          })
+        );
+        return true;
+      } catch (err) {
+        rolledBack.push([pending, err]);
+        return false;
+      }
+    });
+    this._view = view;
+
+    // The view changed wherever the confirmed state did, and wherever the
+    // pending mutations layered on top of it before or after differ
+    const layered = this.pending.flatMap((pending) => pending.operations);
+    const changed = [...this.changes, ...this.layered, ...layered];
+    this.changes = [];
+    this.layered = layered;
+
+    rolledBack.forEach(([mutation, reason]) =>
+      this.onRollback?.(mutation, reason)
+    );
+    this.notify(changed);
+  }
+
+  /**
+   * Calls the listeners whose paths the operations may have changed with the
+   * new value at their path.
+   */
+  private notify(operations: PatchOperation[]): void {
+    if (operations.length === 0) {
+      return;
+    }
+    [...this.subscriptions]
+      .filter(({ path }) =>
+        operations.some((operation) => affects(operation, path))
+      )
+      .forEach(({ path, listener }) => listener(valueAt(this._view, path)));
+  }
+
+  /**
+   * Applies the top entry of one undo stack as a new version and pushes its
+   * inverse onto the other.
+   */
+  private revert(
+    from: PatchOperation[][],
+    to: PatchOperation[][]
+  ): PatchEnvelope | null {
+    const operations = from.at(-1);
+    if (operations === undefined) {
+      return null;
+    }
+
+    const original = this._state;
+    const envelope = {
+      baseVersion: this._version,
+      version: this._version + 1,
+      operations,
+    };
+    this.applyEnvelope(envelope);
+    from.pop();
+    this.pushUndo(to, original, operations);
+    this.rebase();
+    return envelope;
+  }
+
+  /**
+   * Records the inverse of a new change, which also invalidates any redo.
+   */
+  private recordUndo(original: T, operations: PatchOperation[]): void {
+    if (this.undoLimit === 0) {
+      return;
+    }
+    this.pushUndo(this.undoStack, original, operations);
+    this.redoStack = [];
+  }
+
+  private pushUndo(
+    stack: PatchOperation[][],
+    original: T,
+    operations: PatchOperation[]
+  ): void {
+    if (this.undoLimit === 0) {
+      return;
+    }
+    const inverse = invertOperations(original, operations);
+    if (inverse.length === 0) {
+      return;
+    }
+    stack.push(inverse);
+    if (stack.length > this.undoLimit) {
+      stack.shift();
+    }
+  }
+
+  /**
+   * Rewrites the undo history for an envelope that did not come from this
+   * instance, so undoing still reverts exactly the recorded changes.
+   */
+  private transformUndo(operations: PatchOperation[]): void {
+    this.undoStack = transformStack(this.undoStack, operations);
+    this.redoStack = transformStack(this.redoStack, operations);
+  }
+
+  private record(envelope: PatchEnvelope): void {
+    if (this.historyLimit === 0) {
+      return;
+    }
+    this.history.push(envelope);
+    if (this.history.length > this.historyLimit) {
+      const dropped = this.history.shift();
+      if (dropped?.mutationId !== undefined) {
+        this.submissions.delete(dropped.mutationId);
+      }
+    }
+  }
+
+  private buffer(envelope: PatchEnvelope): void {
+    // An envelope straddling the current version can never become applicable
+    if (
+      envelope.baseVersion < this._version ||
+      this.buffered.size >= this.bufferLimit
+    ) {
+      throw new SyncStateGapError({
+        expectedBaseVersion: this._version,
+        receivedBaseVersion: envelope.baseVersion,
+      });
+    }
+    this.buffered.set(envelope.baseVersion, envelope);
   }
 }
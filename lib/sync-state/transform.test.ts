@@ -0,0 +1,352 @@
+import { describe, expect, test } from "bun:test";
+import { applyOperations, PatchOperation } from "./splice";
+import { transformOperations, transformPair } from "./transform";
+
+/**
+ * Helper function to apply operations to a copy of a document.
+ */
+function applyAll<T>(document: T, ...patches: PatchOperation[][]): T {
+  return patches.reduce(
+    (current, patch) => applyOperations(current, patch),
+    structuredClone(document)
+  );
+}
+
+/**
+ * Helper function to check that two concurrent patches converge regardless
+ * of which one is applied first.
+ */
+function expectConverges<T>(
+  document: T,
+  a: PatchOperation[],
+  b: PatchOperation[]
+): T {
+  const [aAfterB, bAfterA] = transformPair(a, b);
+  const viaB = applyAll(document, b, aAfterB);
+  const viaA = applyAll(document, a, bAfterA);
+  expect(viaB).toEqual(viaA);
+  return viaB;
+}
+
+/**
+ * Helper function to apply operations one at a time, rejecting move targets
+ * past the end of the array with the moved element removed, which RFC 6902
+ * forbids but fast-json-patch accepts.
+ */
+function applyStrict(document: unknown[], patch: PatchOperation[]): unknown[] {
+  return patch.reduce((current, operation) => {
+    if (operation.op === "move" && operation.path !== "/-") {
+      expect(Number(operation.path.slice(1))).toBeLessThan(current.length);
+    }
+    return applyOperations(current, [operation]);
+  }, structuredClone(document));
+}
+
+/**
+ * Helper function to create a seeded random number generator, so that
+ * property tests are repeatable.
+ */
+function createRandom(seed: number) {
+  return (limit: number) => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return Math.floor((seed / 0x80000000) * limit);
+  };
+}
+
+/**
+ * Helper function to create a random operation on an array of `length`
+ * elements.
+ */
+function randomOperation(
+  random: (limit: number) => number,
+  length: number
+): PatchOperation {
+  const position = (limit: number) =>
+    random(5) === 0 ? "/-" : `/${random(limit)}`;
+  if (length === 0) {
+    return { op: "add", path: position(1), value: random(100) };
+  }
+  switch (random(5)) {
+    case 0:
+      return { op: "add", path: position(length + 1), value: random(100) };
+    case 1:
+      return { op: "remove", path: `/${random(length)}` };
+    case 2:
+      return { op: "replace", path: `/${random(length)}`, value: random(100) };
+    case 3:
+      return { op: "move", from: `/${random(length)}`, path: position(length) };
+    default:
+      return {
+        op: "copy",
+        from: `/${random(length)}`,
+        path: position(length + 1),
+      };
+  }
+}
+
+describe("transformOperations", () => {
+  test("should shift indices after a concurrent insert", () => {
+    const operations: PatchOperation[] = [
+      { op: "replace", path: "/items/3/count", value: 10 },
+    ];
+    const against: PatchOperation[] = [
+      { op: "add", path: "/items/1", value: { count: 0 } },
+    ];
+
+    expect(transformOperations(operations, against)).toEqual([
+      { op: "replace", path: "/items/4/count", value: 10 },
+    ]);
+  });
+
+  test("should shift indices after a concurrent remove", () => {
+    const operations: PatchOperation[] = [{ op: "remove", path: "/items/3" }];
+    const against: PatchOperation[] = [{ op: "remove", path: "/items/0" }];
+
+    expect(transformOperations(operations, against)).toEqual([
+      { op: "remove", path: "/items/2" },
+    ]);
+  });
+
+  test("should not shift indices before the change", () => {
+    const operations: PatchOperation[] = [
+      { op: "replace", path: "/items/0/count", value: 10 },
+    ];
+    const against: PatchOperation[] = [{ op: "remove", path: "/items/2" }];
+
+    expect(transformOperations(operations, against)).toEqual(operations);
+  });
+
+  test("should drop operations on a removed element", () => {
+    const operations: PatchOperation[] = [
+      { op: "replace", path: "/items/1/count", value: 10 },
+    ];
+    const against: PatchOperation[] = [{ op: "remove", path: "/items/1" }];
+
+    expect(transformOperations(operations, against)).toEqual([]);
+  });
+
+  test("should drop operations inside a replaced value", () => {
+    const operations: PatchOperation[] = [
+      { op: "replace", path: "/items/1/count", value: 10 },
+    ];
+    const against: PatchOperation[] = [
+      { op: "replace", path: "/items", value: [] },
+    ];
+
+    expect(transformOperations(operations, against)).toEqual([]);
+  });
+
+  test("should follow a moved element", () => {
+    const operations: PatchOperation[] = [
+      { op: "replace", path: "/items/0/count", value: 10 },
+    ];
+    const against: PatchOperation[] = [
+      { op: "move", from: "/items/0", path: "/items/2" },
+    ];
+
+    expect(transformOperations(operations, against)).toEqual([
+      { op: "replace", path: "/items/2/count", value: 10 },
+    ]);
+  });
+
+  test("should place concurrent inserts at the same index after against", () => {
+    const operations: PatchOperation[] = [
+      { op: "add", path: "/items/1", value: "mine" },
+    ];
+    const against: PatchOperation[] = [
+      { op: "add", path: "/items/1", value: "theirs" },
+    ];
+
+    const result = applyAll(
+      { items: ["a", "b"] },
+      against,
+      transformOperations(operations, against)
+    );
+
+    expect(result).toEqual({ items: ["a", "theirs", "mine", "b"] });
+  });
+
+  test("should account for earlier operations in the same list", () => {
+    const operations: PatchOperation[] = [
+      { op: "add", path: "/items/0", value: "x" },
+      { op: "replace", path: "/items/2", value: "C" },
+    ];
+    const against: PatchOperation[] = [{ op: "remove", path: "/items/0" }];
+
+    const result = applyAll(
+      { items: ["a", "b", "c"] },
+      against,
+      transformOperations(operations, against)
+    );
+
+    expect(result).toEqual({ items: ["x", "C", "c"] });
+  });
+
+  test("should leave unrelated paths untouched", () => {
+    const operations: PatchOperation[] = [
+      { op: "replace", path: "/title", value: "New" },
+    ];
+    const against: PatchOperation[] = [
+      { op: "add", path: "/items/0", value: "a" },
+    ];
+
+    expect(transformOperations(operations, against)).toEqual(operations);
+  });
+});
+
+describe("transformPair", () => {
+  test("should converge for concurrent inserts into the same array", () => {
+    const result = expectConverges(
+      { items: [{ count: 1 }, { count: 2 }] },
+      [{ op: "add", path: "/items/0", value: { count: 10 } }],
+      [{ op: "add", path: "/items/2", value: { count: 20 } }]
+    );
+
+    expect(result).toEqual({
+      items: [{ count: 10 }, { count: 1 }, { count: 2 }, { count: 20 }],
+    });
+  });
+
+  test("should converge for an insert and an edit of a later element", () => {
+    const result = expectConverges(
+      { items: [{ count: 1 }, { count: 2 }, { count: 3 }] },
+      [{ op: "add", path: "/items/0", value: { count: 0 } }],
+      [{ op: "replace", path: "/items/2/count", value: 30 }]
+    );
+
+    expect(result).toEqual({
+      items: [{ count: 0 }, { count: 1 }, { count: 2 }, { count: 30 }],
+    });
+  });
+
+  test("should converge for a remove and an edit of a later element", () => {
+    const result = expectConverges(
+      { items: [{ count: 1 }, { count: 2 }, { count: 3 }] },
+      [{ op: "remove", path: "/items/0" }],
+      [{ op: "replace", path: "/items/2/count", value: 30 }]
+    );
+
+    expect(result).toEqual({ items: [{ count: 2 }, { count: 30 }] });
+  });
+
+  test("should converge for removes of different elements", () => {
+    const result = expectConverges(
+      { items: ["a", "b", "c", "d"] },
+      [{ op: "remove", path: "/items/1" }],
+      [{ op: "remove", path: "/items/3" }]
+    );
+
+    expect(result).toEqual({ items: ["a", "c"] });
+  });
+});
+
+describe("transformPair with moves", () => {
+  test("should keep move targets within the array", () => {
+    const document = [0, 1, 2];
+    const a: PatchOperation[] = [{ op: "move", from: "/2", path: "/0" }];
+    const b: PatchOperation[] = [{ op: "move", from: "/0", path: "/2" }];
+    const [aAfterB, bAfterA] = transformPair(a, b);
+
+    expect(applyStrict(applyStrict(document, b), aAfterB)).toEqual(
+      applyStrict(applyStrict(document, a), bAfterA)
+    );
+  });
+
+  test("should let the move applied first win for the same element", () => {
+    const document = ["a", "b", "c"];
+    const a: PatchOperation[] = [{ op: "move", from: "/0", path: "/1" }];
+    const b: PatchOperation[] = [{ op: "move", from: "/0", path: "/2" }];
+
+    expect(transformOperations(a, b)).toEqual([]);
+    expect(expectConverges(document, a, b)).toEqual(["b", "c", "a"]);
+  });
+
+  test("should converge for concurrent moves", () => {
+    const random = createRandom(42);
+    for (let run = 0; run < 500; run++) {
+      const length = random(4) + 1;
+      const document = Array.from({ length }, (_, index) => index);
+      const move = (): PatchOperation => ({
+        op: "move",
+        from: `/${random(length)}`,
+        path: `/${random(length)}`,
+      });
+      const a = [move()];
+      const b = [move()];
+      const [aAfterB, bAfterA] = transformPair(a, b);
+
+      expect(applyStrict(applyStrict(document, b), aAfterB)).toEqual(
+        applyStrict(applyStrict(document, a), bAfterA)
+      );
+    }
+  });
+
+  test("should produce operations that apply after the other side", () => {
+    const random = createRandom(7);
+    for (let run = 0; run < 1000; run++) {
+      const length = random(4);
+      const document = Array.from({ length }, (_, index) => index);
+      const a = [randomOperation(random, length)];
+      const b = [randomOperation(random, length)];
+      const [aAfterB, bAfterA] = transformPair(a, b);
+
+      applyStrict(applyStrict(document, b), aAfterB);
+      applyStrict(applyStrict(document, a), bAfterA);
+    }
+  });
+});
+
+describe("transformPair with splices", () => {
+  test("should converge for concurrent splices of the same string", () => {
+    const result = expectConverges(
+      { text: "Hello world" },
+      [{ op: "splice", path: "/text", offset: 0, remove: 5, value: "Goodbye" }],
+      [{ op: "splice", path: "/text", offset: 11, remove: 0, value: "!" }]
+    );
+
+    expect(result).toEqual({ text: "Goodbye world!" });
+  });
+
+  test("should converge for concurrent inserts at the same offset", () => {
+    const result = expectConverges(
+      { text: "ab" },
+      [{ op: "splice", path: "/text", offset: 1, remove: 0, value: "x" }],
+      [{ op: "splice", path: "/text", offset: 1, remove: 0, value: "y" }]
+    );
+
+    expect(result).toEqual({ text: "ayxb" });
+  });
+
+  test("should shift splices after a concurrent remove", () => {
+    const operations: PatchOperation[] = [
+      { op: "splice", path: "/items/1", offset: 0, remove: 0, value: ">" },
+    ];
+    const against: PatchOperation[] = [{ op: "remove", path: "/items/0" }];
+
+    expect(transformOperations(operations, against)).toEqual([
+      { op: "splice", path: "/items/0", offset: 0, remove: 0, value: ">" },
+    ]);
+  });
+
+  test("should drop splices of a replaced string", () => {
+    const operations: PatchOperation[] = [
+      { op: "splice", path: "/text", offset: 0, remove: 0, value: "x" },
+    ];
+    const against: PatchOperation[] = [
+      { op: "replace", path: "/text", value: "new" },
+    ];
+
+    expect(transformOperations(operations, against)).toEqual([]);
+  });
+
+  test("should drop splices that overlap", () => {
+    const operations: PatchOperation[] = [
+      { op: "splice", path: "/text", offset: 2, remove: 4, value: "x" },
+    ];
+    const against: PatchOperation[] = [
+      { op: "splice", path: "/text", offset: 0, remove: 3, value: "" },
+    ];
+
+    expect(transformOperations(operations, against)).toEqual([]);
+  });
+});
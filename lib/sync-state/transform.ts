@@ -0,0 +1,401 @@
+import { MoveOperation } from "fast-json-patch";
+import { formatPath, isIndex, isPrefix, parsePath } from "./json-pointer";
+import { PatchOperation, SpliceOperation } from "./splice";
+
+/**
+ * Whether a path names a location to insert a value at (the target of add,
+ * move and copy) or a value that already exists (everything else).
+ */
+type PathKind = "insert" | "existing";
+
+/**
+ * Returns whether a path refers to the value at `target` or something inside
+ * it. Inserting at `target` itself does not refer to the old value.
+ */
+function isInside(target: string[], path: string[], kind: PathKind): boolean {
+  return (
+    isPrefix(target, path) &&
+    (kind === "existing" || path.length > target.length)
+  );
+}
+
+/**
+ * Adjusts a path for a value inserted at `at`.
+ * When both insert at the same array index, `insertAfter` decides which one
+ * ends up first.
+ */
+function shiftForInsert(
+  path: string[],
+  kind: PathKind,
+  at: string[],
+  insertAfter: boolean
+): string[] | null {
+  const depth = at.length - 1;
+  const last = at[depth];
+
+  // Appending with "-" does not move existing elements
+  if (last === "-") {
+    return path;
+  }
+
+  // Adding an object member replaces any previous value under that key
+  if (!isIndex(last)) {
+    return path.length > at.length && isPrefix(at, path) ? null : path;
+  }
+
+  if (path.length <= depth || !isPrefix(at.slice(0, depth), path)) {
+    return path;
+  }
+  const token = path[depth];
+  if (!isIndex(token)) {
+    return path;
+  }
+
+  const index = Number(token);
+  const inserted = Number(last);
+  const isSameInsert = kind === "insert" && path.length === at.length;
+  if (
+    index > inserted ||
+    (index === inserted && (!isSameInsert || insertAfter))
+  ) {
+    const shifted = [...path];
+    shifted[depth] = String(index + 1);
+    return shifted;
+  }
+  return path;
+}
+
+/**
+ * Adjusts a path for the value removed at `at`, or returns null when the path
+ * referred to the removed value.
+ */
+function shiftForRemove(
+  path: string[],
+  kind: PathKind,
+  at: string[]
+): string[] | null {
+  if (isInside(at, path, kind)) {
+    return null;
+  }
+
+  const depth = at.length - 1;
+  const last = at[depth];
+  if (
+    !isIndex(last) ||
+    path.length <= depth ||
+    !isPrefix(at.slice(0, depth), path) ||
+    !isIndex(path[depth])
+  ) {
+    return path;
+  }
+
+  const index = Number(path[depth]);
+  if (index > Number(last)) {
+    const shifted = [...path];
+    shifted[depth] = String(index - 1);
+    return shifted;
+  }
+  return path;
+}
+
+/**
+ * Reverses `shiftForRemove`: turns a path written after the value at `at` was
+ * removed into the same location in the document before the removal.
+ */
+function unshiftForRemove(path: string[], at: string[]): string[] {
+  const depth = at.length - 1;
+  const last = at[depth];
+  if (
+    !isIndex(last) ||
+    path.length <= depth ||
+    !isPrefix(at.slice(0, depth), path) ||
+    !isIndex(path[depth])
+  ) {
+    return path;
+  }
+
+  const index = Number(path[depth]);
+  if (index >= Number(last)) {
+    const shifted = [...path];
+    shifted[depth] = String(index + 1);
+    return shifted;
+  }
+  return path;
+}
+
+/**
+ * Adjusts a path for an operation that was applied before it.
+ */
+function transformPath(
+  path: string[],
+  kind: PathKind,
+  against: PatchOperation,
+  insertAfter: boolean
+): string[] | null {
+  const target = parsePath(against.path);
+
+  switch (against.op) {
+    case "add":
+    case "copy":
+      return shiftForInsert(path, kind, target, insertAfter);
+    case "remove":
+      return shiftForRemove(path, kind, target);
+    case "replace":
+      // Anything inside a replaced value no longer exists
+      return path.length > target.length && isPrefix(target, path)
+        ? null
+        : path;
+    case "move": {
+      const from = parsePath(against.from);
+      if (isInside(from, path, kind)) {
+        // Follow the moved value, unless its new index depends on the document
+        if (target[target.length - 1] === "-") {
+          return null;
+        }
+        return [...target, ...path.slice(from.length)];
+      }
+      const removed = shiftForRemove(path, kind, from);
+      return removed && shiftForInsert(removed, kind, target, insertAfter);
+    }
+    default:
+      return path;
+  }
+}
+
+/**
+ * Returns whether `against` overwrites the value at `path` as a whole, as
+ * opposed to inserting next to it in an array.
+ */
+function overwrites(against: PatchOperation, path: string[]): boolean {
+  const target = parsePath(against.path);
+  if (target.length !== path.length || !isPrefix(target, path)) {
+    return false;
+  }
+  switch (against.op) {
+    case "replace":
+      return true;
+    case "add":
+    case "move":
+    case "copy":
+      return !isIndex(target[target.length - 1]);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Rewrites a splice so it can be applied after `against`. Splices of the same
+ * string are shifted past each other, with `insertAfter` ordering inserts at
+ * the same offset. Returns null when the string was overwritten or the two
+ * splices edit overlapping text.
+ */
+function transformSplice(
+  operation: SpliceOperation,
+  against: PatchOperation,
+  insertAfter: boolean
+): SpliceOperation | null {
+  if (overwrites(against, parsePath(operation.path))) {
+    return null;
+  }
+
+  if (against.op === "splice" && against.path === operation.path) {
+    const end = operation.offset + operation.remove;
+    const againstEnd = against.offset + against.remove;
+    const isSameInsert =
+      against.offset === operation.offset &&
+      against.remove === 0 &&
+      operation.remove === 0;
+    if (againstEnd <= operation.offset && (!isSameInsert || insertAfter)) {
+      return {
+        ...operation,
+        offset: operation.offset + against.value.length - against.remove,
+      };
+    }
+    return end <= against.offset ? operation : null;
+  }
+
+  const path = transformPath(
+    parsePath(operation.path),
+    "existing",
+    against,
+    insertAfter
+  );
+  return path && { ...operation, path: formatPath(path) };
+}
+
+/**
+ * Decides whether a move target at `target` goes after the value `against`
+ * inserts at the same index. Two moves are ordered by their targets in the
+ * document before either was applied, which both sides of a transform agree
+ * on even when the value moved by one of them was next to the other target.
+ */
+function insertsAfter(
+  target: string[],
+  against: PatchOperation,
+  insertAfter: boolean
+): boolean {
+  if (against.op !== "move") {
+    return insertAfter;
+  }
+  const againstTarget = unshiftForRemove(
+    parsePath(against.path),
+    parsePath(against.from)
+  );
+  const depth = target.length - 1;
+  if (
+    againstTarget.length !== target.length ||
+    !isPrefix(againstTarget.slice(0, depth), target) ||
+    !isIndex(target[depth]) ||
+    !isIndex(againstTarget[depth]) ||
+    target[depth] === againstTarget[depth]
+  ) {
+    return insertAfter;
+  }
+  return Number(target[depth]) > Number(againstTarget[depth]);
+}
+
+/**
+ * Rewrites a move so it can be applied after `against`. The target of a move is
+ * relative to the document with the moved value already removed, so it is
+ * transformed as an insert into the document before the removal and then
+ * adjusted for the removal again. When both operations move the same value,
+ * the one applied first decides where it ends up.
+ */
+function transformMove(
+  operation: MoveOperation,
+  against: PatchOperation,
+  insertAfter: boolean
+): MoveOperation | null {
+  if (against.op === "move" && against.from === operation.from && insertAfter) {
+    return null;
+  }
+
+  const from = parsePath(operation.from);
+  const target = unshiftForRemove(parsePath(operation.path), from);
+  const movedFrom = transformPath(from, "existing", against, insertAfter);
+  const insertAt = transformPath(
+    target,
+    "insert",
+    against,
+    insertsAfter(target, against, insertAfter)
+  );
+  if (movedFrom === null || insertAt === null) {
+    return null;
+  }
+
+  const path = shiftForRemove(insertAt, "insert", movedFrom);
+  return (
+    path && {
+      ...operation,
+      path: formatPath(path),
+      from: formatPath(movedFrom),
+    }
+  );
+}
+
+/**
+ * Rewrites a single operation so it can be applied after `against`, where both
+ * were produced against the same document. Returns null when the operation's
+ * target no longer exists.
+ */
+function transformOperation(
+  operation: PatchOperation,
+  against: PatchOperation,
+  insertAfter: boolean
+): PatchOperation | null {
+  if (operation.op === "splice") {
+    return transformSplice(operation, against, insertAfter);
+  }
+  if (operation.op === "move") {
+    return transformMove(operation, against, insertAfter);
+  }
+
+  const kind: PathKind =
+    operation.op === "add" || operation.op === "copy" ? "insert" : "existing";
+
+  const path = transformPath(
+    parsePath(operation.path),
+    kind,
+    against,
+    insertAfter
+  );
+  if (path === null) {
+    return null;
+  }
+
+  if (operation.op === "copy") {
+    const from = transformPath(
+      parsePath(operation.from),
+      "existing",
+      against,
+      insertAfter
+    );
+    if (from === null) {
+      return null;
+    }
+    return { ...operation, path: formatPath(path), from: formatPath(from) };
+  }
+
+  return { ...operation, path: formatPath(path) };
+}
+
+/**
+ * Transforms two operation lists produced concurrently against the same
+ * document so that each can be applied after the other.
+ *
+ * @param operations - The operations to rebase.
+ * @param against - The operations applied first.
+ * @returns A pair of `operations` rewritten to apply after `against`, and
+ *          `against` rewritten to apply after `operations`.
+ */
+export function transformPair(
+  operations: PatchOperation[],
+  against: PatchOperation[]
+): [PatchOperation[], PatchOperation[]] {
+  let others = [...against];
+  const transformed: PatchOperation[] = [];
+
+  for (const operation of operations) {
+    let current: PatchOperation | null = operation;
+    const nextOthers: PatchOperation[] = [];
+
+    for (const other of others) {
+      if (current === null) {
+        nextOthers.push(other);
+        continue;
+      }
+      const rebasedOther = transformOperation(other, current, false);
+      current = transformOperation(current, other, true);
+      if (rebasedOther !== null) {
+        nextOthers.push(rebasedOther);
+      }
+    }
+
+    if (current !== null) {
+      transformed.push(current);
+    }
+    others = nextOthers;
+  }
+
+  return [transformed, others];
+}
+
+/**
+ * Rebases operations against a concurrent list of operations produced from the
+ * same document, adjusting array indices for add, remove and move so that
+ * applying `against` and then the result has the intended effect. Operations
+ * whose target was removed or replaced are dropped. When both lists insert at
+ * the same array index, the inserts from `against` come first, and when both
+ * move the same element, the move from `against` wins. Splices of the
+ * same string are shifted past each other the same way.
+ *
+ * @param operations - The operations to rebase.
+ * @param against - The operations applied first.
+ * @returns The rebased operations.
+ */
+export function transformOperations(
+  operations: PatchOperation[],
+  against: PatchOperation[]
+): PatchOperation[] {
+  return transformPair(operations, against)[0];
+}
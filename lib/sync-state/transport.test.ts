@@ -0,0 +1,345 @@
+import { describe, expect, test } from "bun:test";
+import { z, ZodError } from "zod";
+import { SyncChannel } from "./channel";
+import { SyncMessage } from "./envelope";
+import {
+  InMemorySyncTransport,
+  PubSubClient,
+  PubSubSyncTransport,
+  SyncTransport,
+} from "./transport";
+
+const schema = z.array(z.object({ count: z.number() }));
+type State = z.infer<typeof schema>;
+
+/**
+ * In-process stand-in for a Redis pub/sub server.
+ * Delivers messages asynchronously, as a network round trip would.
+ */
+class FakePubSubServer {
+  private readonly listeners = new Map<
+    string,
+    Set<(message: string) => void>
+  >();
+
+  /**
+   * Returns a client connected to this server.
+   */
+  connect(): PubSubClient {
+    return {
+      publish: async (channel, message) => {
+        await Promise.resolve();
+        this.listeners.get(channel)?.forEach((listener) => listener(message));
+        return this.listeners.get(channel)?.size ?? 0;
+      },
+      subscribe: async (channel, listener) => {
+        const listeners = this.listeners.get(channel) ?? new Set();
+        listeners.add(listener);
+        this.listeners.set(channel, listeners);
+      },
+      unsubscribe: async (channel, listener) => {
+        this.listeners.get(channel)?.delete(listener);
+      },
+    };
+  }
+
+  /**
+   * Sends a raw message to every listener on a channel.
+   */
+  deliver(channel: string, message: string) {
+    this.listeners.get(channel)?.forEach((listener) => listener(message));
+  }
+
+  /**
+   * Returns the number of listeners on a channel.
+   */
+  listenerCount(channel: string): number {
+    return this.listeners.get(channel)?.size ?? 0;
+  }
+}
+
+/**
+ * Helper function to create a channel connected to a transport.
+ */
+function createChannel(
+  transport: SyncTransport<State>,
+  options: Partial<ConstructorParameters<typeof SyncChannel<State>>[0]> = {}
+) {
+  return new SyncChannel({
+    id: "chat",
+    schema,
+    initialState: [],
+    transport,
+    ...options,
+  });
+}
+
+/**
+ * Helper function to create a transport with separate publisher and subscriber
+ * connections to a pub/sub server.
+ */
+function createPubSubTransport(
+  server: FakePubSubServer,
+  options: { prefix?: string; onError?: (err: unknown) => void } = {}
+) {
+  return new PubSubSyncTransport<State>({
+    publisher: server.connect(),
+    subscriber: server.connect(),
+    ...options,
+  });
+}
+
+/**
+ * Helper function to wait until pending transport deliveries have run.
+ */
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Helper function to pull the next message from a subscription.
+ */
+async function next(
+  subscription: AsyncGenerator<SyncMessage<State>>
+): Promise<SyncMessage<State>> {
+  const result = await subscription.next();
+  if (result.done) {
+    throw new Error("Subscription ended");
+  }
+  return result.value;
+}
+
+describe("InMemorySyncTransport", () => {
+  test("should deliver published messages to subscribers", async () => {
+    const transport = new InMemorySyncTransport<State>();
+    const received: unknown[] = [];
+    await transport.subscribe("chat", (message) => received.push(message));
+
+    await transport.publish("chat", { type: "resync" });
+    await transport.publish("other", { type: "resync" });
+
+    expect(received).toEqual([{ type: "resync" }]);
+  });
+
+  test("should stop delivering after unsubscribing", async () => {
+    const transport = new InMemorySyncTransport<State>();
+    const received: unknown[] = [];
+    const unsubscribe = await transport.subscribe("chat", (message) =>
+      received.push(message)
+    );
+
+    await unsubscribe();
+    await transport.publish("chat", { type: "resync" });
+
+    expect(received).toEqual([]);
+  });
+});
+
+describe("SyncChannel transport errors", () => {
+  test("should report failed publishes to onError", async () => {
+    const failure = new Error("Connection closed");
+    const errors: unknown[] = [];
+    const channel = new SyncChannel({
+      id: "chat",
+      schema,
+      initialState: [],
+      transport: {
+        publish: async () => {
+          throw failure;
+        },
+        subscribe: async () => async () => {},
+      },
+      onError: (err) => errors.push(err),
+    });
+    await flush();
+
+    channel.mutateAndDiff((state) => [...state, { count: 1 }]);
+    await flush();
+
+    // Both the initial resync request and the envelope failed to publish
+    expect(errors).toEqual([failure, failure]);
+  });
+});
+
+describe("PubSubSyncTransport", () => {
+  test("should fan out envelopes to channels on other instances", async () => {
+    const server = new FakePubSubServer();
+    const producer = createChannel(createPubSubTransport(server));
+    const follower = createChannel(createPubSubTransport(server), {
+      owner: false,
+    });
+    await flush();
+
+    const subscription = follower.subscribe();
+    expect((await next(subscription)).type).toBe("snapshot");
+
+    const envelope = producer.mutateAndDiff((state) => [
+      ...state,
+      { count: 1 },
+    ]);
+    await flush();
+
+    expect(await next(subscription)).toEqual({ type: "patch", envelope });
+    expect(follower.state).toEqual([{ count: 1 }]);
+  });
+
+  test("should send a snapshot to instances that join late", async () => {
+    const server = new FakePubSubServer();
+    const producer = createChannel(createPubSubTransport(server));
+    producer.mutateAndDiff((state) => [...state, { count: 1 }]);
+    producer.mutateAndDiff((state) => [...state, { count: 2 }]);
+    await flush();
+
+    const follower = createChannel(createPubSubTransport(server), {
+      owner: false,
+    });
+    await flush();
+    await flush();
+
+    expect(follower.state).toEqual([{ count: 1 }, { count: 2 }]);
+    expect(follower.version).toBe(2);
+  });
+
+  test("should forward operations to the owner of the channel", async () => {
+    const server = new FakePubSubServer();
+    const owner = createChannel(createPubSubTransport(server));
+    const follower = createChannel(createPubSubTransport(server), {
+      owner: false,
+    });
+    await flush();
+
+    const envelope = await follower.applyOperations(
+      [{ op: "add", path: "/-", value: { count: 1 } }],
+      { mutationId: "m1", baseVersion: 0, epoch: follower.epoch }
+    );
+    await flush();
+
+    expect(envelope).toMatchObject({ version: 1, mutationId: "m1" });
+    expect(owner.state).toEqual([{ count: 1 }]);
+    expect(follower.state).toEqual([{ count: 1 }]);
+  });
+
+  test("should keep writes made concurrently through different instances", async () => {
+    const server = new FakePubSubServer();
+    const owner = createChannel(createPubSubTransport(server));
+    const follower = createChannel(createPubSubTransport(server), {
+      owner: false,
+    });
+    await flush();
+    const subscription = follower.subscribe();
+    expect((await next(subscription)).type).toBe("snapshot");
+
+    const [first, second] = await Promise.all([
+      owner.applyOperations([{ op: "add", path: "/-", value: { count: 1 } }], {
+        baseVersion: 0,
+        epoch: owner.epoch,
+      }),
+      follower.applyOperations(
+        [{ op: "add", path: "/-", value: { count: 2 } }],
+        { baseVersion: 0, epoch: follower.epoch }
+      ),
+    ]);
+    await flush();
+
+    expect([first.version, second.version]).toEqual([1, 2]);
+    expect(owner.state).toEqual([{ count: 1 }, { count: 2 }]);
+    expect(follower.state).toEqual(owner.state);
+    expect(await next(subscription)).toEqual({
+      type: "patch",
+      envelope: first,
+    });
+    expect(await next(subscription)).toEqual({
+      type: "patch",
+      envelope: second,
+    });
+  });
+
+  test("should reject forwarded operations the owner rejects", async () => {
+    const server = new FakePubSubServer();
+    createChannel(createPubSubTransport(server));
+    const follower = createChannel(createPubSubTransport(server), {
+      owner: false,
+    });
+    await flush();
+
+    const result = follower.applyOperations([
+      { op: "add", path: "/-", value: { count: "one" } },
+    ]);
+
+    await expect(result).rejects.toBeInstanceOf(ZodError);
+    expect(follower.state).toEqual([]);
+  });
+
+  test("should fail forwarded operations no owner answers", async () => {
+    const server = new FakePubSubServer();
+    const follower = createChannel(createPubSubTransport(server), {
+      owner: false,
+      forwardTimeoutMs: 10,
+    });
+
+    const result = follower.applyOperations([
+      { op: "add", path: "/-", value: { count: 1 } },
+    ]);
+
+    await expect(result).rejects.toThrow("did not answer");
+  });
+
+  test("should not let instances that do not own the channel change it", async () => {
+    const server = new FakePubSubServer();
+    const follower = createChannel(createPubSubTransport(server), {
+      owner: false,
+    });
+
+    expect(() =>
+      follower.mutateAndDiff((state) => [...state, { count: 1 }])
+    ).toThrow("Only the owner");
+  });
+
+  test("should report another instance owning the channel", async () => {
+    const server = new FakePubSubServer();
+    const errors: unknown[] = [];
+    createChannel(createPubSubTransport(server), {
+      onError: (err) => errors.push(err),
+    });
+    createChannel(createPubSubTransport(server));
+    await flush();
+    await flush();
+
+    // Both owners answer each request to resync
+    expect(errors).toEqual([
+      new Error("Another instance also owns channel chat"),
+      new Error("Another instance also owns channel chat"),
+    ]);
+  });
+
+  test("should skip messages that cannot be parsed", async () => {
+    const server = new FakePubSubServer();
+    const errors: unknown[] = [];
+    const transport = createPubSubTransport(server, {
+      onError: (err) => errors.push(err),
+    });
+    const received: unknown[] = [];
+    await transport.subscribe("chat", (message) => received.push(message));
+
+    server.deliver("sync-state:chat", "{not json");
+    server.deliver("sync-state:chat", JSON.stringify({ type: "resync" }));
+
+    expect(received).toEqual([{ type: "resync" }]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(SyntaxError);
+  });
+
+  test("should unsubscribe from the pub/sub server when the channel closes", async () => {
+    const server = new FakePubSubServer();
+    const channel = createChannel(
+      createPubSubTransport(server, { prefix: "p:" })
+    );
+    await flush();
+    expect(server.listenerCount("p:chat")).toBe(1);
+
+    channel.close();
+    await flush();
+
+    expect(server.listenerCount("p:chat")).toBe(0);
+  });
+});
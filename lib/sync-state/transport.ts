@@ -0,0 +1,194 @@
+import { ZodError } from "zod";
+import { PatchEnvelope, SyncSnapshot } from "./envelope";
+import { PatchOperation } from "./splice";
+import { ApplyOperationsOptions } from "./sync-state";
+
+/**
+ * Why the owner of a channel rejected forwarded operations, in a form that
+ * survives serialization: a gap in its history, a state failing the schema,
+ * a patch that cannot be applied, or any other error.
+ */
+export type ForwardRejection =
+  | { kind: "gap"; expectedBaseVersion: number; receivedBaseVersion: number }
+  | { kind: "schema"; issues: ZodError["issues"] }
+  | {
+      kind: "patch";
+      message: string;
+      name: string;
+      index?: number;
+      operation?: unknown;
+    }
+  | { kind: "error"; message: string };
+
+/**
+ * A message exchanged between SyncChannel instances over a transport.
+ * The instance that owns the channel publishes snapshots and patch envelopes,
+ * and answers requests to resync and operations forwarded by other instances.
+ * `origin` identifies the instance that sent a snapshot or envelope, so the
+ * owner notices when another instance claims the channel too. `id` matches
+ * forwarded operations with the owner's answer.
+ */
+export type TransportMessage<T> =
+  | { type: "snapshot"; snapshot: SyncSnapshot<T>; origin: string }
+  | { type: "patch"; envelope: PatchEnvelope; origin: string }
+  | { type: "resync" }
+  | {
+      type: "forward";
+      id: string;
+      operations: PatchOperation[];
+      options: ApplyOperationsOptions;
+    }
+  | { type: "applied"; id: string; envelope: PatchEnvelope }
+  | { type: "rejected"; id: string; rejection: ForwardRejection };
+
+/**
+ * Delivers messages between SyncChannel instances that share a channel id,
+ * possibly across processes.
+ *
+ * @template T - The type of the state object carried in snapshots.
+ */
+export interface SyncTransport<T> {
+  /**
+   * Publishes a message to every subscriber of a topic, including the publisher.
+   */
+  publish(topic: string, message: TransportMessage<T>): Promise<void>;
+
+  /**
+   * Subscribes to a topic.
+   *
+   * @returns A function that removes the subscription.
+   */
+  subscribe(
+    topic: string,
+    listener: (message: TransportMessage<T>) => void
+  ): Promise<() => Promise<void>>;
+}
+
+/**
+ * A transport that delivers messages within the current process.
+ *
+ * @template T - The type of the state object carried in snapshots.
+ */
+export class InMemorySyncTransport<T> implements SyncTransport<T> {
+  private readonly listeners = new Map<
+    string,
+    Set<(message: TransportMessage<T>) => void>
+  >();
+
+  async publish(topic: string, message: TransportMessage<T>): Promise<void> {
+    // Copy so listeners never share (and mutate) the publisher's objects
+    const copy = structuredClone(message);
+    this.listeners.get(topic)?.forEach((listener) => listener(copy));
+  }
+
+  async subscribe(
+    topic: string,
+    listener: (message: TransportMessage<T>) => void
+  ): Promise<() => Promise<void>> {
+    const listeners = this.listeners.get(topic) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(topic, listeners);
+
+    return async () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(topic);
+      }
+    };
+  }
+}
+
+/**
+ * The subset of a Redis-style pub/sub client used by PubSubSyncTransport.
+ * Matches the node-redis v4 API; other clients can be wrapped to fit.
+ */
+export interface PubSubClient {
+  publish(channel: string, message: string): Promise<unknown>;
+  subscribe(
+    channel: string,
+    listener: (message: string) => void
+  ): Promise<unknown>;
+  unsubscribe(
+    channel: string,
+    listener: (message: string) => void
+  ): Promise<unknown>;
+}
+
+/**
+ * Parameters for constructing a PubSubSyncTransport instance.
+ */
+interface PubSubSyncTransportParam {
+  /** Client used to publish messages. */
+  publisher: PubSubClient;
+  /**
+   * Client used to subscribe. Redis connections in subscriber mode cannot
+   * publish, so this must be a separate connection from the publisher.
+   */
+  subscriber: PubSubClient;
+  /** Prefix added to every topic. Defaults to "sync-state:". */
+  prefix?: string;
+  /**
+   * Called with the error when a received message cannot be parsed. The
+   * message is skipped.
+   */
+  onError?: (err: unknown) => void;
+}
+
+/**
+ * A transport that delivers messages through a Redis-style pub/sub service,
+ * allowing subscribers on one server instance to receive patches produced on
+ * another. Messages are serialized as JSON.
+ *
+ * @template T - The type of the state object carried in snapshots.
+ */
+export class PubSubSyncTransport<T> implements SyncTransport<T> {
+  private readonly publisher: PubSubClient;
+  private readonly subscriber: PubSubClient;
+  private readonly prefix: string;
+  private readonly onError: PubSubSyncTransportParam["onError"];
+
+  /**
+   * Creates a new PubSubSyncTransport instance.
+   *
+   * @param param - Configuration object containing the pub/sub clients.
+   */
+  constructor({
+    publisher,
+    subscriber,
+    prefix = "sync-state:",
+    onError,
+  }: PubSubSyncTransportParam) {
+    this.publisher = publisher;
+    this.subscriber = subscriber;
+    this.prefix = prefix;
+    this.onError = onError;
+  }
+
+  async publish(topic: string, message: TransportMessage<T>): Promise<void> {
+    await this.publisher.publish(this.prefix + topic, JSON.stringify(message));
+  }
+
+  async subscribe(
+    topic: string,
+    listener: (message: TransportMessage<T>) => void
+  ): Promise<() => Promise<void>> {
+    const channel = this.prefix + topic;
+    // Payloads are validated by the SyncState schema when they are applied
+    const onMessage = (message: string) => {
+      let parsed: TransportMessage<T>;
+      try {
+        parsed = JSON.parse(message);
+      } catch (err) {
+        // Nothing above the pub/sub client's callback would catch this
+        this.onError?.(err);
+        return;
+      }
+      listener(parsed);
+    };
+    await this.subscriber.subscribe(channel, onMessage);
+
+    return async () => {
+      await this.subscriber.unsubscribe(channel, onMessage);
+    };
+  }
+}
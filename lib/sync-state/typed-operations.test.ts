@@ -0,0 +1,149 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import { JsonPatch } from "./json-patch";
+import { PatchOperation } from "./splice";
+import {
+  AddPointer,
+  JsonPointer,
+  PatchBuilder,
+  RemovePointer,
+  TypedOperation,
+  ValueAt,
+} from "./typed-operations";
+
+const schema = z.object({
+  title: z.string(),
+  items: z.array(
+    z.object({
+      label: z.string(),
+      done: z.boolean(),
+      note: z.string().optional(),
+    })
+  ),
+  tags: z.record(z.string(), z.number()),
+  "a/b~c": z.number(),
+});
+
+type State = z.infer<typeof schema>;
+
+const patcher = new JsonPatch({ schema });
+
+/**
+ * Helper function to create a document.
+ */
+function createDocument(): State {
+  return {
+    title: "Todo",
+    items: [
+      { label: "one", done: false },
+      { label: "two", done: true, note: "later" },
+    ],
+    tags: { home: 1 },
+    "a/b~c": 0,
+  };
+}
+
+/**
+ * Helper function to assert at compile time that two types are equal.
+ */
+function expectType<A, B>(
+  equal: [A] extends [B] ? ([B] extends [A] ? true : false) : false
+) {
+  expect<boolean>(equal).toBe(true);
+}
+
+describe("JsonPointer types", () => {
+  test("should derive pointers with numeric array indices", () => {
+    const index: number = 1;
+    const pointers: JsonPointer<State>[] = [
+      "",
+      "/title",
+      "/items/0/label",
+      `/items/${index}/note`,
+      "/tags/anything",
+      "/a~1b~0c",
+    ];
+    // @ts-expect-error the document has no such field
+    const missing: JsonPointer<State> = "/nonexistent/field";
+    // @ts-expect-error array indices are numbers
+    const notIndex: JsonPointer<State> = "/items/first";
+
+    expect(pointers).toHaveLength(6);
+    expect([missing, notIndex]).toHaveLength(2);
+  });
+
+  test("should derive the value type at a pointer", () => {
+    expectType<ValueAt<State, "/items/0">, State["items"][number]>(true);
+    expectType<ValueAt<State, "/items/0/note">, string>(true);
+    expectType<ValueAt<State, "/tags/home">, number>(true);
+    expectType<ValueAt<State, "/a~1b~0c">, number>(true);
+  });
+
+  test("should only allow appending and removing where the schema can", () => {
+    const append: AddPointer<State> = "/items/-";
+    const removable: RemovePointer<State>[] = [
+      "/items/0",
+      "/items/0/note",
+      "/tags/home",
+    ];
+    // @ts-expect-error required members cannot be removed
+    const required: RemovePointer<State> = "/items/0/label";
+    // @ts-expect-error only arrays can be appended to
+    const notArray: AddPointer<State> = "/title/-";
+
+    expect([append, ...removable, required, notArray]).toHaveLength(6);
+  });
+});
+
+describe("PatchBuilder", () => {
+  test("should build operations that apply to the document", () => {
+    const patch = new PatchBuilder<State>()
+      .test("/title", "Todo")
+      .replace("/items/0/done", true)
+      .add("/items/-", { label: "three", done: false })
+      .remove("/items/1/note")
+      .splice("/title", 4, 0, "s")
+      .copy("/items/0/label", "/items/1/label")
+      .move("/tags/home", "/tags/work")
+      .build();
+
+    const result = patcher.apply({ original: createDocument(), patch });
+
+    expect(result).toEqual({
+      title: "Todos",
+      items: [
+        { label: "one", done: true },
+        { label: "one", done: true },
+        { label: "three", done: false },
+      ],
+      tags: { work: 1 },
+      "a/b~c": 0,
+    });
+  });
+
+  test("should reject paths and values that do not match the type", () => {
+    const builder = new PatchBuilder<State>();
+
+    // @ts-expect-error the document has no such field
+    builder.replace("/nonexistent/field", 1);
+    // @ts-expect-error done is a boolean
+    builder.replace("/items/0/done", "yes");
+    // @ts-expect-error items need a label
+    builder.add("/items/-", { done: false });
+    // @ts-expect-error only strings can be spliced
+    builder.splice("/items/0/done", 0, 0, "x");
+    // @ts-expect-error a label is not a number
+    builder.move("/items/0/label", "/tags/home");
+
+    expect(builder.build()).toHaveLength(5);
+  });
+
+  test("should produce operations usable as PatchOperations", () => {
+    const operations: TypedOperation<State>[] = new PatchBuilder<State>()
+      .replace("/title", "Done")
+      .build();
+    const patch: PatchOperation[] = operations;
+
+    expect(patch).toEqual([{ op: "replace", path: "/title", value: "Done" }]);
+  });
+});
@@ -0,0 +1,243 @@
+import { PatchOperation } from "./splice";
+
+/**
+ * Remaining depths for the recursive pointer types, which stop descending
+ * after this many levels so that recursive schemas terminate.
+ */
+type Depths = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+/**
+ * Escapes a key as a JSON Pointer token: "~" becomes "~0" and "/" becomes "~1".
+ */
+type EscapeTilde<K extends string> = K extends `${infer A}~${infer B}`
+  ? `${A}~0${EscapeTilde<B>}`
+  : K;
+type EscapeSlash<K extends string> = K extends `${infer A}/${infer B}`
+  ? `${A}~1${EscapeSlash<B>}`
+  : K;
+type EscapeToken<K extends string> = EscapeSlash<EscapeTilde<K>>;
+
+/**
+ * Reverses EscapeToken.
+ */
+type UnescapeSlash<K extends string> = K extends `${infer A}~1${infer B}`
+  ? `${A}/${UnescapeSlash<B>}`
+  : K;
+type UnescapeTilde<K extends string> = K extends `${infer A}~0${infer B}`
+  ? `${A}~${UnescapeTilde<B>}`
+  : K;
+type UnescapeToken<K extends string> = UnescapeTilde<UnescapeSlash<K>>;
+
+/**
+ * Which pointers to produce: pointers to existing values, pointers an add
+ * operation may target (including "-" to append to an array), or pointers to
+ * values that can be removed (array elements, record entries and optional
+ * members).
+ */
+type PointerMode = "value" | "add" | "remove";
+
+/**
+ * Returns whether a key of an object type may be missing.
+ */
+type IsOptional<T, K extends keyof T> =
+  object extends Pick<T, K> ? true : false;
+
+/**
+ * The pointers below a value, relative to it.
+ */
+type ChildPointers<T, Mode extends PointerMode, Depth extends number> = [
+  Depth,
+] extends [never]
+  ? never
+  : T extends readonly (infer E)[]
+    ?
+        | `/${number}`
+        | (Mode extends "add" ? "/-" : never)
+        | `/${number}${ChildPointers<NonNullable<E>, Mode, Depths[Depth]>}`
+    : T extends object
+      ? {
+          [K in keyof T & string]:
+            | (Mode extends "remove"
+                ? string extends K
+                  ? `/${EscapeToken<K>}`
+                  : IsOptional<T, K> extends true
+                    ? `/${EscapeToken<K>}`
+                    : never
+                : `/${EscapeToken<K>}`)
+            | `/${EscapeToken<K>}${ChildPointers<NonNullable<T[K]>, Mode, Depths[Depth]>}`;
+        }[keyof T & string]
+      : never;
+
+/**
+ * The JSON Pointers to the values in a document of type T, such as
+ * `/items/${number}/title`, with a number in place of each array index.
+ */
+export type JsonPointer<T> = "" | ChildPointers<T, "value", 10>;
+
+/**
+ * The JSON Pointers an add operation may target in a document of type T:
+ * those of JsonPointer<T>, and `/-` after an array to append to it.
+ */
+export type AddPointer<T> = "" | ChildPointers<T, "add", 10>;
+
+/**
+ * The JSON Pointers a remove operation may target in a document of type T:
+ * array elements, record entries and optional object members.
+ */
+export type RemovePointer<T> = ChildPointers<T, "remove", 10>;
+
+/**
+ * The type of the member of T that a pointer token refers to.
+ */
+type Child<T, Token extends string> = T extends readonly (infer E)[]
+  ? E
+  : UnescapeToken<Token> extends keyof T
+    ? T[UnescapeToken<Token>]
+    : string extends keyof T
+      ? T[string & keyof T]
+      : never;
+
+/**
+ * The type of the value a JSON Pointer refers to in a document of type T.
+ */
+export type ValueAt<T, P extends string> = P extends ""
+  ? T
+  : P extends `/${infer Token}/${infer Rest}`
+    ? ValueAt<NonNullable<Child<T, Token>>, `/${Rest}`>
+    : P extends `/${infer Token}`
+      ? Exclude<Child<T, Token>, undefined>
+      : never;
+
+/**
+ * The JSON Pointers among P that refer to strings, which splices can target.
+ */
+type StringPointer<T, P extends string> = P extends unknown
+  ? ValueAt<T, P> extends string
+    ? P
+    : never
+  : never;
+
+/**
+ * A JSON Patch operation (or splice) whose paths and values are checked
+ * against a document of type T.
+ */
+export type TypedOperation<T> =
+  | ValueOperationOf<T, "add", AddPointer<T>>
+  | { op: "remove"; path: RemovePointer<T> }
+  | ValueOperationOf<T, "replace", JsonPointer<T>>
+  | { op: "move"; from: JsonPointer<T>; path: AddPointer<T> }
+  | { op: "copy"; from: JsonPointer<T>; path: AddPointer<T> }
+  | ValueOperationOf<T, "test", JsonPointer<T>>
+  | SpliceOperationOf<StringPointer<T, JsonPointer<T>>>;
+
+/**
+ * An operation carrying a value, for each of the pointers P.
+ */
+type ValueOperationOf<T, Op extends string, P> = P extends string
+  ? { op: Op; path: P; value: ValueAt<T, P> }
+  : never;
+
+/**
+ * A splice, for each of the pointers P.
+ */
+type SpliceOperationOf<P> = P extends string
+  ? { op: "splice"; path: P; offset: number; remove: number; value: string }
+  : never;
+
+/**
+ * Accepts any path when a value of type From can be written where values of
+ * type To are, and no path otherwise.
+ */
+type SameType<From, To> = [From] extends [To] ? unknown : never;
+
+/**
+ * Builds a patch for a document of type T, checking at compile time that every
+ * path exists in T and every value has the type found at its path. Array
+ * indices are typed as numbers, so `/items/${index}/title` is accepted.
+ *
+ * ```typescript
+ * const patch = new PatchBuilder<State>()
+ *   .replace("/items/0/title", "Hello")
+ *   .add("/items/-", { title: "New", done: false })
+ *   .build();
+ * ```
+ *
+ * @template T - The type of the document the patch applies to.
+ */
+export class PatchBuilder<T> {
+  private readonly operations: PatchOperation[] = [];
+
+  /**
+   * Adds a value, inserting it into an array (`-` appends) or setting an
+   * object member.
+   */
+  add<P extends AddPointer<T>>(path: P, value: ValueAt<T, P>): this {
+    return this.push({ op: "add", path, value });
+  }
+
+  /**
+   * Removes an array element, record entry or optional member.
+   */
+  remove<P extends RemovePointer<T>>(path: P): this {
+    return this.push({ op: "remove", path });
+  }
+
+  /**
+   * Replaces an existing value.
+   */
+  replace<P extends JsonPointer<T>>(path: P, value: ValueAt<T, P>): this {
+    return this.push({ op: "replace", path, value });
+  }
+
+  /**
+   * Moves a value to another path that holds values of the same type.
+   */
+  move<F extends JsonPointer<T>, P extends AddPointer<T>>(
+    from: F,
+    path: P & SameType<ValueAt<T, F>, ValueAt<T, P>>
+  ): this {
+    return this.push({ op: "move", from, path });
+  }
+
+  /**
+   * Copies a value to another path that holds values of the same type.
+   */
+  copy<F extends JsonPointer<T>, P extends AddPointer<T>>(
+    from: F,
+    path: P & SameType<ValueAt<T, F>, ValueAt<T, P>>
+  ): this {
+    return this.push({ op: "copy", from, path });
+  }
+
+  /**
+   * Checks that a value equals the given one before the rest of the patch
+   * applies.
+   */
+  test<P extends JsonPointer<T>>(path: P, value: ValueAt<T, P>): this {
+    return this.push({ op: "test", path, value });
+  }
+
+  /**
+   * Removes `remove` characters of a string at `offset` and inserts `value`.
+   */
+  splice<P extends StringPointer<T, JsonPointer<T>>>(
+    path: P,
+    offset: number,
+    remove: number,
+    value: string
+  ): this {
+    return this.push({ op: "splice", path, offset, remove, value });
+  }
+
+  /**
+   * Returns the operations added so far, in order.
+   */
+  build(): TypedOperation<T>[] {
+    return [...this.operations] as TypedOperation<T>[];
+  }
+
+  private push(operation: PatchOperation): this {
+    this.operations.push(operation);
+    return this;
+  }
+}
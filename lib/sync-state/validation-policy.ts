@@ -0,0 +1,134 @@
+import { z } from "zod";
+
+/**
+ * How often a SyncState validates changes against its schema:
+ * - "strict" validates every change and snapshot.
+ * - `{ every: n }` validates every n-th change and every snapshot, for a
+ *   positive integer n. A validated change re-checks the whole state if
+ *   earlier changes were not validated.
+ * - "snapshot" validates snapshots (the initial state and reset()) only.
+ * - "off" validates nothing.
+ */
+export type ValidationPolicy =
+  | "strict"
+  | "snapshot"
+  | "off"
+  | { every: number };
+
+/**
+ * Validation policies for the two ways a SyncState changes.
+ */
+export interface ValidationOptions {
+  /**
+   * Changes made locally: mutateAndDiff(), mutate(), mutateOptimistic() and
+   * diff(). Defaults to "strict".
+   */
+  diff?: ValidationPolicy;
+  /**
+   * Changes received from elsewhere: apply(), applyOperations() and
+   * snapshots. Pending mutations replayed on top of them are validated only
+   * under "strict". Defaults to "strict".
+   */
+  apply?: ValidationPolicy;
+}
+
+/**
+ * How often validation ran, was skipped and failed.
+ */
+export interface ValidationMetrics {
+  /** Number of changes and snapshots that were validated. */
+  runs: number;
+  /** Number of changes and snapshots the policy let through unvalidated. */
+  skipped: number;
+  /** Number of validations that rejected a change or snapshot. */
+  failures: number;
+}
+
+/**
+ * Decides which changes a policy validates and counts the outcomes.
+ */
+export class ValidationTracker {
+  private readonly policy: ValidationPolicy;
+  private readonly counts: ValidationMetrics = {
+    runs: 0,
+    skipped: 0,
+    failures: 0,
+  };
+  private changes = 0;
+
+  /**
+   * Creates a new ValidationTracker instance.
+   *
+   * @param policy - The policy deciding which changes are validated.
+   * @throws {RangeError} If `every` is not a positive integer.
+   */
+  constructor(policy: ValidationPolicy = "strict") {
+    if (
+      typeof policy === "object" &&
+      !(Number.isInteger(policy.every) && policy.every > 0)
+    ) {
+      throw new RangeError(
+        `Validation interval must be a positive integer, got ${policy.every}`
+      );
+    }
+    this.policy = policy;
+  }
+
+  /**
+   * Runs a change or snapshot with the policy's decision whether to validate
+   * it, and counts the outcome. Only ZodErrors count as failures.
+   *
+   * @param kind - Whether `run` validates a snapshot or a change.
+   * @param run - Performs the change, validating it if `validate` is true.
+   * @returns The result of `run`.
+   */
+  track<R>(kind: "snapshot" | "change", run: (validate: boolean) => R): R {
+    if (!this.shouldValidate(kind)) {
+      this.counts.skipped++;
+      return run(false);
+    }
+
+    this.counts.runs++;
+    try {
+      return run(true);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        this.counts.failures++;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Runs a change again that was already tracked, such as a pending mutation
+   * replayed on top of a new confirmed state. Replays are validated only under
+   * the "strict" policy, and are neither counted nor advance `{ every: n }`.
+   *
+   * @param run - Performs the change, validating it if `validate` is true.
+   * @returns The result of `run`.
+   */
+  replay<R>(run: (validate: boolean) => R): R {
+    return run(this.policy === "strict");
+  }
+
+  /**
+   * Returns a copy of the counts so far.
+   */
+  get metrics(): ValidationMetrics {
+    return { ...this.counts };
+  }
+
+  private shouldValidate(kind: "snapshot" | "change"): boolean {
+    if (this.policy === "off") {
+      return false;
+    }
+    if (kind === "snapshot" || this.policy === "strict") {
+      return true;
+    }
+    if (this.policy === "snapshot") {
+      return false;
+    }
+    this.changes++;
+    return this.changes % this.policy.every === 0;
+  }
+}
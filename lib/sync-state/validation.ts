@@ -0,0 +1,181 @@
+import { ZodType } from "zod";
+import { isIndex, parsePath, valueAt } from "./json-pointer";
+import { PatchOperation } from "./splice";
+import { shareStructure } from "./structural-sharing";
+
+/**
+ * The parts of a Zod schema definition that incremental validation reads.
+ */
+interface SchemaDef {
+  type: string;
+  checks?: unknown[];
+  shape?: Record<string, ZodType>;
+  catchall?: ZodType;
+  element?: ZodType;
+  keyType?: ZodType;
+  valueType?: ZodType;
+  innerType?: ZodType;
+  getter?: () => ZodType;
+}
+
+/**
+ * Returns the definition of a Zod schema.
+ */
+function defOf(schema: ZodType): SchemaDef {
+  return (schema as unknown as { _zod: { def: SchemaDef } })._zod.def;
+}
+
+/**
+ * Returns the schema of a container, looking through optional, nullable and
+ * lazy wrappers. A value that has members is neither undefined nor null, so
+ * those wrappers do not constrain it any further.
+ */
+function unwrap(schema: ZodType): ZodType {
+  const def = defOf(schema);
+  if (def.type === "optional" || def.type === "nullable") {
+    return unwrap(def.innerType!);
+  }
+  if (def.type === "lazy") {
+    return unwrap(def.getter!());
+  }
+  return schema;
+}
+
+/**
+ * Returns the schema of a member of a container, or null when the container
+ * cannot be validated member by member: it has checks or refinements that
+ * depend on all of its members, it transforms its value, or the member is not
+ * part of its shape.
+ */
+function memberSchema(container: ZodType, token: string): ZodType | null {
+  const def = defOf(unwrap(container));
+  if (def.checks?.length) {
+    return null;
+  }
+  switch (def.type) {
+    case "object":
+      if (Object.prototype.hasOwnProperty.call(def.shape, token)) {
+        return def.shape![token];
+      }
+      // Unknown keys are stripped or rejected unless there is a catchall
+      return def.catchall && defOf(def.catchall).type !== "never"
+        ? def.catchall
+        : null;
+    case "array":
+      return isIndex(token) ? def.element! : null;
+    case "record":
+      return def.keyType!.safeParse(token).success ? def.valueType! : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Returns the schema of the value at a path, or null when a container along
+ * the path cannot be validated member by member.
+ */
+function schemaAt(schema: ZodType, path: string[]): ZodType | null {
+  let current: ZodType | null = schema;
+  for (const token of path) {
+    current = current && memberSchema(current, token);
+  }
+  return current;
+}
+
+/**
+ * Returns whether a value is valid for a schema as it is, so that validating
+ * it is the same as validating the document it is part of. Values the schema
+ * would change (e.g. by applying a default or a transform) are not.
+ */
+function isValid(schema: ZodType, value: unknown): boolean {
+  const result = schema.safeParse(value);
+  return result.success && shareStructure(value, result.data) === value;
+}
+
+/**
+ * Returns whether a value may be added or replaced at a path.
+ */
+function checkWrite(
+  schema: ZodType,
+  document: unknown,
+  path: string[]
+): boolean {
+  if (path.length === 0) {
+    return false;
+  }
+  const target = [...path];
+  if (target[target.length - 1] === "-") {
+    // The appended element is now the last one
+    const array = valueAt(document, target.slice(0, -1)) as unknown[];
+    target[target.length - 1] = String(array.length - 1);
+  }
+  const member = schemaAt(schema, target);
+  return member !== null && isValid(member, valueAt(document, target));
+}
+
+/**
+ * Returns whether a record requires an entry for every key its key schema
+ * accepts, as it does for enum and literal keys, whose finite set of values
+ * Zod exposes. Entries of such a record cannot be removed.
+ */
+function isExhaustive(keyType: ZodType): boolean {
+  const { values } = (keyType as unknown as { _zod: { values?: Set<unknown> } })
+    ._zod;
+  return values !== undefined;
+}
+
+/**
+ * Returns whether the value at a path may be removed: array elements and
+ * entries of records with open-ended keys can be, object members only when
+ * they are optional.
+ */
+function checkRemove(schema: ZodType, path: string[]): boolean {
+  if (path.length === 0) {
+    return false;
+  }
+  const member = schemaAt(schema, path);
+  if (member === null) {
+    return false;
+  }
+  const parent = defOf(unwrap(schemaAt(schema, path.slice(0, -1))!));
+  return (
+    parent.type === "array" ||
+    (parent.type === "record" && !isExhaustive(parent.keyType!)) ||
+    isValid(member, undefined)
+  );
+}
+
+/**
+ * Validates the part of a document an operation changed, right after the
+ * operation was applied to it, assuming the document was valid before. Only
+ * the value the operation wrote is parsed, together with the member it added
+ * or removed, so the cost depends on the size of the change rather than the
+ * size of the document.
+ *
+ * @param schema - The schema of the whole document.
+ * @param document - The document the operation was just applied to.
+ * @param operation - The applied operation.
+ * @returns true if the change is valid, or false if it is invalid or cannot
+ *          be validated on its own, in which case the whole document must be
+ *          validated instead.
+ */
+export function validateOperation(
+  schema: ZodType,
+  document: unknown,
+  operation: PatchOperation
+): boolean {
+  const path = parsePath(operation.path);
+  switch (operation.op) {
+    case "test":
+      return true;
+    case "remove":
+      return checkRemove(schema, path);
+    case "move":
+      return (
+        checkRemove(schema, parsePath(operation.from)) &&
+        checkWrite(schema, document, path)
+      );
+    default:
+      return checkWrite(schema, document, path);
+  }
+}
@@ -1,7 +1,6 @@
 import { z } from "zod";
 import { publicProcedure, router } from "../trpc";
-import { SyncState } from "@/lib/sync-state";
-import { Operation } from "fast-json-patch";
+import { objectsProcedure } from "../streaming-objects";
 
 /**
  * Main application router that combines all sub-routers
@@ -46,46 +45,11 @@ export const appRouter = router({
   }),
 
   /**
-   * Streaming objects endpoint that yields JSON Patch operations
-   * State is an array of objects with count properties
-   * Each iteration either increments an existing object or adds a new one
+   * Streaming objects: `objects.stream` yields SyncState messages (and
+   * `objects.subscribe` the same over SSE or WebSockets), and `objects.update`
+   * applies operations proposed by clients
    */
-  streamingObjects: publicProcedure.query(async function* (): AsyncGenerator<
-    Operation[]
-  > {
-    const objectSchema = z.object({
-      count: z.number(),
-    });
-
-    const stateSchema = z.array(objectSchema);
-
-    const syncState = new SyncState({
-      schema: stateSchema,
-      initialState: [],
-    });
-
-    while (true) {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      const operations = syncState.mutateAndDiff((state) => {
-        const n = state.length;
-        const totalProbability = n + 1;
-        const randomChoice = Math.floor(Math.random() * totalProbability);
-
-        if (randomChoice < n) {
-          // Increment one of the existing objects
-          const newState = [...state];
-          newState[randomChoice] = { count: state[randomChoice].count + 1 };
-          return newState;
-        } else {
-          // Add a new object with count 1
-          return [...state, { count: 1 }];
-        }
-      });
-
-      yield operations;
-    }
-  }),
+  objects: objectsProcedure,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,44 @@
+import { SyncChannel } from "@/lib/sync-state";
+import { objectsSchemas, ObjectsState } from "@/lib/schemas/objects";
+import { defineSyncProcedure } from "./sync-procedure";
+
+/**
+ * Either increments a random existing object or adds a new one
+ */
+function step(channel: SyncChannel<ObjectsState>) {
+  channel.mutateAndDiff((state) => {
+    const n = state.length;
+    const totalProbability = n + 1;
+    const randomChoice = Math.floor(Math.random() * totalProbability);
+
+    if (randomChoice < n) {
+      // Increment one of the existing objects
+      const newState = [...state];
+      newState[randomChoice] = {
+        ...state[randomChoice],
+        count: state[randomChoice].count + 1,
+      };
+      return newState;
+    } else {
+      // Add a new object with count 1
+      return [...state, { count: 1 }];
+    }
+  });
+}
+
+/**
+ * Streaming objects procedures. Channels outlive individual streams so every
+ * viewer of the same id sees the same state, and clients can resume after a
+ * dropped connection. A channel updates once per second, and closes (and
+ * stops updating) after a minute without viewers
+ */
+export const objectsProcedure = defineSyncProcedure({
+  schema: objectsSchemas,
+  initialState: [],
+  historyLimit: 100,
+  idleTimeoutMs: 60_000,
+  run: (channel) => {
+    const ticker = setInterval(() => step(channel), 1000);
+    return () => clearInterval(ticker);
+  },
+});
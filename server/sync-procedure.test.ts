@@ -0,0 +1,230 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import { InMemorySyncTransport, SchemaRegistry } from "@/lib/sync-state";
+import { defineSyncProcedure } from "./sync-procedure";
+import { createCallerFactory, router } from "./trpc";
+
+type Note = { text: string; pinned?: boolean };
+
+const notesSchemas = new SchemaRegistry({
+  name: "notes",
+  versions: [
+    { version: 1, schema: z.array(z.object({ text: z.string() })) },
+    {
+      version: 2,
+      schema: z.array(
+        z.object({ text: z.string(), pinned: z.boolean().optional() })
+      ),
+      migration: {
+        up: (state: Note[]) => state,
+        down: (state: Note[]) => state.map(({ text }) => ({ text })),
+        upOperations: (operations) => operations,
+        downOperations: (operations) =>
+          operations.filter((operation) => !operation.path.endsWith("/pinned")),
+      },
+    },
+  ],
+});
+
+/**
+ * Helper function to create a caller for a router with one sync procedure.
+ */
+function createCaller() {
+  const appRouter = router({
+    notes: defineSyncProcedure({
+      schema: notesSchemas,
+      initialState: [{ text: "first", pinned: true }],
+    }),
+  });
+  return createCallerFactory(appRouter)({});
+}
+
+/**
+ * Helper function to read the first messages of a stream.
+ */
+async function take<T>(iterable: AsyncIterable<T>, count: number) {
+  const messages: T[] = [];
+  for await (const message of iterable) {
+    messages.push(message);
+    if (messages.length === count) {
+      break;
+    }
+  }
+  return messages;
+}
+
+describe("defineSyncProcedure", () => {
+  test("should start the stream with a handshake and a snapshot", async () => {
+    const caller = createCaller();
+
+    const messages = await take(await caller.notes.stream(), 2);
+
+    expect(messages).toEqual([
+      { type: "handshake", name: "notes", version: 2 },
+      {
+        type: "snapshot",
+        snapshot: {
+          version: 0,
+          state: [{ text: "first", pinned: true }],
+          epoch: expect.any(String),
+        },
+      },
+    ]);
+  });
+
+  test("should stream in the version negotiated with the client", async () => {
+    const caller = createCaller();
+
+    const messages = await take(
+      await caller.notes.stream({
+        channelId: "old",
+        schema: { name: "notes", versions: [1] },
+      }),
+      2
+    );
+
+    expect(messages).toEqual([
+      { type: "handshake", name: "notes", version: 1 },
+      {
+        type: "snapshot",
+        snapshot: {
+          version: 0,
+          state: [{ text: "first" }],
+          epoch: expect.any(String),
+        },
+      },
+    ]);
+  });
+
+  test("should stream the same messages as a subscription", async () => {
+    const caller = createCaller();
+
+    const messages = await take(
+      await caller.notes.subscribe({
+        channelId: "subscribed",
+        schema: { name: "notes", versions: [1] },
+      }),
+      2
+    );
+
+    expect(messages).toEqual([
+      { type: "handshake", name: "notes", version: 1 },
+      {
+        type: "snapshot",
+        snapshot: {
+          version: 0,
+          state: [{ text: "first" }],
+          epoch: expect.any(String),
+        },
+      },
+    ]);
+  });
+
+  test("should reject clients that share no version", async () => {
+    const caller = createCaller();
+
+    const stream = await caller.notes.stream({
+      schema: { name: "notes", versions: [3] },
+    });
+
+    await expect(take(stream, 1)).rejects.toThrow(/Cannot use schema notes/);
+  });
+
+  test("should apply updates from clients", async () => {
+    const caller = createCaller();
+
+    const { version } = await caller.notes.update({
+      channelId: "edits",
+      operations: [{ op: "replace", path: "/0/text", value: "edited" }],
+    });
+    const [, snapshot] = await take(
+      await caller.notes.stream({ channelId: "edits" }),
+      2
+    );
+
+    expect(version).toBe(1);
+    expect(snapshot).toEqual({
+      type: "snapshot",
+      snapshot: {
+        version: 1,
+        state: [{ text: "edited", pinned: true }],
+        epoch: expect.any(String),
+      },
+    });
+  });
+
+  test("should send a snapshot to clients resuming from another epoch", async () => {
+    const caller = createCaller();
+    await caller.notes.update({
+      channelId: "restarted",
+      operations: [{ op: "replace", path: "/0/text", value: "edited" }],
+    });
+
+    const [, message] = await take(
+      await caller.notes.stream({
+        channelId: "restarted",
+        sinceVersion: 0,
+        epoch: "previous",
+      }),
+      2
+    );
+
+    expect(message.type).toBe("snapshot");
+  });
+
+  test("should reject updates based on another epoch", async () => {
+    const caller = createCaller();
+
+    await expect(
+      caller.notes.update({
+        channelId: "restarted",
+        operations: [{ op: "replace", path: "/0/text", value: "edited" }],
+        baseVersion: 0,
+        epoch: "previous",
+      })
+    ).rejects.toThrow("no longer available");
+  });
+
+  test("should run channels only on the instance that owns them", async () => {
+    const transport = new InMemorySyncTransport<Note[]>();
+    const runs: boolean[] = [];
+    const createInstance = (owner: boolean) =>
+      createCallerFactory(
+        router({
+          notes: defineSyncProcedure({
+            schema: notesSchemas,
+            initialState: [{ text: "first", pinned: true }],
+            transport,
+            owner,
+            run: (channel) => {
+              runs.push(channel.owner);
+            },
+          }),
+        })
+      )({});
+    const owner = createInstance(true);
+    const follower = createInstance(false);
+
+    await owner.notes.update({
+      channelId: "shared",
+      operations: [{ op: "replace", path: "/0/text", value: "edited" }],
+    });
+    const { version } = await follower.notes.update({
+      channelId: "shared",
+      operations: [{ op: "replace", path: "/0/pinned", value: false }],
+    });
+
+    expect(runs).toEqual([true]);
+    expect(version).toBe(2);
+  });
+
+  test("should reject invalid operations", async () => {
+    const caller = createCaller();
+
+    await expect(
+      caller.notes.update({
+        operations: [{ op: "replace", path: "/0/text", value: 1 }],
+      })
+    ).rejects.toThrow("Rejected operations");
+  });
+});
@@ -0,0 +1,263 @@
+import { z, ZodError, ZodType } from "zod";
+import { TRPCError } from "@trpc/server";
+import { JsonPatchError } from "fast-json-patch";
+import { publicProcedure, router } from "./trpc";
+import {
+  JsonPatch,
+  SchemaHandshake,
+  SchemaRegistry,
+  SchemaVersionError,
+  SyncChannel,
+  SyncChannelRegistry,
+  SyncMessage,
+  SyncMessageSchema,
+  SyncStateGapError,
+} from "@/lib/sync-state";
+
+/**
+ * Options passed to every channel of a sync procedure
+ */
+type ChannelOptions<T extends object | object[]> = Omit<
+  ConstructorParameters<typeof SyncChannel<T>>[0],
+  "id" | "schema" | "initialState"
+>;
+
+/**
+ * Parameters for defineSyncProcedure
+ */
+type DefineSyncProcedureParam<T extends object | object[]> =
+  ChannelOptions<T> & {
+    /**
+     * The state's schema, or a registry of its versions. Import it from a
+     * module shared with the client, which passes it to useSyncProcedure
+     */
+    schema: SchemaRegistry<T> | ZodType<T>;
+    /** The state of a newly created channel */
+    initialState: T;
+    /**
+     * Produces changes to a channel, called when the channel is created on
+     * the instance that owns it. Instances created with `owner: false` skip
+     * it, since only the owner can change the state. The returned function,
+     * if any, is called when the channel closes
+     */
+    run?: (channel: SyncChannel<T>) => (() => void) | void;
+  };
+
+/**
+ * Messages of a sync procedure's stream: the schema handshake, followed by
+ * snapshots and patches in the negotiated version
+ */
+const streamMessageSchema = z.union([
+  z.object({
+    type: z.literal("handshake"),
+    name: z.string(),
+    version: z.number().int().positive(),
+  }),
+  SyncMessageSchema,
+]);
+
+/**
+ * Output schema for an async generator procedure, validating each value it
+ * yields against a schema
+ */
+function zAsyncIterable<T extends ZodType>(schema: T) {
+  return z
+    .custom<AsyncIterable<unknown>>(
+      (value) =>
+        typeof value === "object" &&
+        value !== null &&
+        Symbol.asyncIterator in value
+    )
+    .transform(async function* (iterable): AsyncGenerator<z.output<T>> {
+      for await (const value of iterable) {
+        yield schema.parse(value);
+      }
+    });
+}
+
+/**
+ * Translates the errors of a sync procedure into tRPC errors
+ */
+function toTRPCError(err: unknown): unknown {
+  if (err instanceof SchemaVersionError) {
+    return new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: err.message,
+      cause: err,
+    });
+  }
+  if (err instanceof SyncStateGapError) {
+    return new TRPCError({
+      code: "CONFLICT",
+      message: "Operations are based on a version that is no longer available",
+      cause: err,
+    });
+  }
+  if (err instanceof ZodError || err instanceof JsonPatchError) {
+    return new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Rejected operations",
+      cause: err,
+    });
+  }
+  return err;
+}
+
+/**
+ * Defines a synced state once and returns a router to mount on appRouter,
+ * with a `stream` query that streams a channel's SyncState messages, a
+ * `subscribe` subscription streaming the same messages over Server-Sent Events
+ * or WebSockets, and an `update` mutation that applies operations proposed by a client. Clients
+ * consume it with the useSyncProcedure hook
+ *
+ * Channels are created on first use, run `run` until they close (on the
+ * instance that owns them, when shared through a transport), and are
+ * shared by every stream with the same channel id. Streams start with a
+ * handshake naming the schema version negotiated with the client, followed by
+ * a snapshot (or the missed patches when resuming) and live patches, all
+ * translated into that version
+ */
+export function defineSyncProcedure<T extends object | object[]>({
+  schema,
+  initialState,
+  run,
+  ...options
+}: DefineSyncProcedureParam<T>) {
+  const schemas = SchemaRegistry.from(schema);
+  const channels = new SyncChannelRegistry<T>({
+    create: (id) => {
+      const channel = new SyncChannel({
+        ...options,
+        id,
+        schema: schemas.schema,
+        initialState,
+      });
+      const stop = channel.owner ? run?.(channel) : undefined;
+      if (stop) {
+        channel.onClose(stop);
+      }
+      return channel;
+    },
+  });
+
+  /**
+   * Schema versions a client supports
+   */
+  const schemaOfferInput = z.object({
+    name: z.string(),
+    versions: z.array(z.number().int().positive()).min(1),
+  });
+
+  /**
+   * Input of a stream: the channel, the last version the client applied with
+   * its epoch, and the schema versions it supports
+   */
+  const streamInput = z
+    .object({
+      channelId: z.string().min(1).default("default"),
+      sinceVersion: z.number().int().nonnegative().optional(),
+      epoch: z.string().optional(),
+      schema: schemaOfferInput.optional(),
+    })
+    .optional();
+
+  /**
+   * Yields the handshake, then the channel's messages translated into the
+   * negotiated schema version
+   */
+  async function* streamMessages(
+    input: z.output<typeof streamInput>,
+    signal: AbortSignal | undefined
+  ): AsyncGenerator<SchemaHandshake | SyncMessage<object | object[]>> {
+    let version: number;
+    try {
+      version = schemas.negotiate(input?.schema);
+    } catch (err) {
+      throw toTRPCError(err);
+    }
+    const translator = schemas.translator(schemas.latest, version);
+    const channel = channels.get(input?.channelId ?? "default");
+    yield schemas.handshake(version);
+    const messages = channel.subscribe({
+      sinceVersion: schemas.canTranslateOperations(schemas.latest, version)
+        ? input?.sinceVersion
+        : undefined,
+      epoch: input?.epoch,
+      signal,
+    });
+    for await (const message of messages) {
+      yield translator.translate(message);
+    }
+  }
+
+  return router({
+    /**
+     * Streams the SyncState messages of a channel
+     * Clients pass the last version they applied to resume a dropped stream:
+     * missed patches are replayed from history, or a snapshot is sent when the
+     * history no longer reaches back that far. Patches that can only be
+     * translated with the state they apply to are preceded by a snapshot
+     */
+    stream: publicProcedure
+      .input(streamInput)
+      .output(zAsyncIterable(streamMessageSchema))
+      .query(({ input, signal }) => streamMessages(input, signal)),
+
+    /**
+     * Streams the same messages as `stream` as a tRPC subscription, for
+     * clients connected over Server-Sent Events or WebSockets
+     */
+    subscribe: publicProcedure
+      .input(streamInput)
+      .output(zAsyncIterable(streamMessageSchema))
+      .subscription(({ input, signal }) => streamMessages(input, signal)),
+
+    /**
+     * Applies JSON Patch operations proposed by a client to a channel and
+     * rebroadcasts them to every subscriber
+     * Operations made against an older version are transformed against the
+     * changes applied since, and operations in an older schema version are
+     * translated into the latest one. The rebroadcast envelope carries the
+     * client's mutation id so the sender can replace its optimistic copy with
+     * the confirmed one. Instances that do not own the channel forward the
+     * operations to its owner
+     */
+    update: publicProcedure
+      .input(
+        z.object({
+          channelId: z.string().min(1).default("default"),
+          operations: z.unknown(),
+          mutationId: z.string().optional(),
+          baseVersion: z.number().int().nonnegative().optional(),
+          epoch: z.string().optional(),
+          baseMutationIds: z.array(z.string()).optional(),
+          schemaVersion: z.number().int().positive().optional(),
+        })
+      )
+      .mutation(async ({ input }) => {
+        const channel = channels.get(input.channelId);
+        try {
+          const operations = schemas.translateOperations(
+            JsonPatch.validatePatch(input.operations),
+            input.schemaVersion ?? schemas.latest,
+            schemas.latest
+          );
+          if (operations === null) {
+            throw new TRPCError({
+              code: "PRECONDITION_FAILED",
+              message: `Operations in schema version ${input.schemaVersion} are not accepted`,
+            });
+          }
+          const envelope = await channel.applyOperations(operations, {
+            mutationId: input.mutationId,
+            baseVersion: input.baseVersion,
+            epoch: input.epoch,
+            baseMutationIds: input.baseMutationIds,
+          });
+          return { version: envelope.version };
+        } catch (err) {
+          throw toTRPCError(err);
+        }
+      }),
+  });
+}
@@ -0,0 +1,29 @@
+import { WebSocketServer } from "ws";
+import { applyWSSHandler } from "@trpc/server/adapters/ws";
+import { appRouter } from "./routers/_app";
+
+/**
+ * Standalone tRPC WebSocket server, run with `bun run ws` next to the Next.js
+ * server, since Next.js route handlers cannot upgrade connections. Serves the
+ * same router as the fetch handler, so clients using the "websocket" transport
+ * stream and edit over a single connection. Channels live in the process that
+ * created them, so this server's channels are separate from the Next.js
+ * server's
+ */
+const port = Number(process.env.TRPC_WS_PORT ?? 3001);
+const wss = new WebSocketServer({ port });
+const handler = applyWSSHandler({
+  wss,
+  router: appRouter,
+  createContext: () => ({}),
+  // Detects connections dropped without a close frame, e.g. by a proxy
+  keepAlive: { enabled: true, pingMs: 30000, pongWaitMs: 5000 },
+});
+
+console.log(`tRPC WebSocket server listening on ws://localhost:${port}`);
+
+process.on("SIGTERM", () => {
+  // Asks clients to reconnect, e.g. to a new instance after a deploy
+  handler.broadcastReconnectNotification();
+  wss.close();
+});